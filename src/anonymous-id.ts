@@ -0,0 +1,68 @@
+/**
+ * Persistent identifiers for anonymous visitors, so they can be bucketed into rollouts
+ */
+
+export const ANONYMOUS_ID_STORAGE_KEY = 'zenmanage_anonymous_id';
+
+/**
+ * Key-value storage for the anonymous identifier (`localStorage` and `sessionStorage` qualify)
+ */
+export interface IdentifierStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+/**
+ * Get the identifier stored for this visitor, generating and storing one on first use.
+ *
+ * In browsers the identifier is kept in `localStorage`, so it survives reloads and visits.
+ * When storage is unavailable (Node.js, private browsing, blocked storage) every call returns
+ * a new identifier: a shared one would put every anonymous user of a server in the same
+ * rollout bucket. Pass storage that belongs to the visitor (e.g. backed by a cookie) to keep
+ * their identifier stable on the server.
+ *
+ * @param storage - Where to keep the identifier (default: `localStorage` when available)
+ */
+export function getAnonymousIdentifier(
+  storage: IdentifierStorage | null = defaultStorage()
+): string {
+  if (storage) {
+    try {
+      const stored = storage.getItem(ANONYMOUS_ID_STORAGE_KEY);
+      if (stored) {
+        return stored;
+      }
+
+      const identifier = generateIdentifier();
+      storage.setItem(ANONYMOUS_ID_STORAGE_KEY, identifier);
+      return identifier;
+    } catch {
+      // Storage can throw when it is full or blocked by the browser
+    }
+  }
+
+  return generateIdentifier();
+}
+
+function defaultStorage(): IdentifierStorage | null {
+  try {
+    return (globalThis as { localStorage?: IdentifierStorage }).localStorage ?? null;
+  } catch {
+    // Accessing localStorage throws when cookies are disabled
+    return null;
+  }
+}
+
+/**
+ * Generate a random UUID (v4), using the Web Crypto API when available
+ */
+function generateIdentifier(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = Math.floor(Math.random() * 16);
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
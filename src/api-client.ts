@@ -1,6 +1,8 @@
-import type { Logger, RulesResponse } from './types';
-import type { Context } from './context';
+import type { ContextData, Logger, RulesResponse } from './types';
 import { FetchRulesError, InvalidRulesError } from './errors';
+import { isValidRulesResponse } from './rules';
+import { RulesStream, type RulesStreamListener, type StreamEvent } from './streaming';
+import type { UsageRecord } from './usage-reporter';
 
 /**
  * Metadata response from the API containing CDN information
@@ -16,8 +18,10 @@ const SDK_VERSION = '3.0.0';
 const CLIENT_AGENT = 'zenmanage-javascript';
 const DEFAULT_API_ENDPOINT = 'https://api.zenmanage.com';
 const RULES_PATH = '/v1/flag-json';
+const STREAM_PATH = '/v1/flag-stream';
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 100;
+const USAGE_CONCURRENCY = 4;
 
 /**
  * API client for communicating with the Zenmanage service
@@ -83,7 +87,7 @@ export class ApiClient {
 
         const data = await rulesResponse.json();
 
-        if (!this.isValidRulesResponse(data)) {
+        if (!isValidRulesResponse(data)) {
           throw new InvalidRulesError('Invalid response format from CDN');
         }
 
@@ -107,52 +111,123 @@ export class ApiClient {
   }
 
   /**
-   * Report flag usage to the API
+   * Open a Server-Sent Events stream that pushes rule updates
+   *
+   * The server sends either `rules` events carrying a complete rule set, or
+   * `rules_changed` events signalling that rules should be re-fetched.
+   * The returned stream is not connected until start() is called.
    */
-  async reportUsage(key: string, context?: Context): Promise<void> {
-    this.logger.debug(`reportUsage called for flag: ${key}`, {
-      enableUsageReporting: this.enableUsageReporting,
-      hasContext: !!context,
-    });
+  stream(listener: RulesStreamListener): RulesStream {
+    const url = `${this.baseUrl}${STREAM_PATH}`;
+
+    return new RulesStream(
+      (signal) =>
+        this.fetch(url, {
+          method: 'GET',
+          headers: { ...this.headers, Accept: 'text/event-stream' },
+          signal,
+        }),
+      {
+        onEvent: (event) => this.handleStreamEvent(event, listener),
+        onOpen: listener.onOpen,
+        onFallback: listener.onFallback,
+      },
+      this.logger
+    );
+  }
 
+  /**
+   * Send aggregated usage records to the usage endpoint, one request per flag and context
+   * (`POST /v1/flags/{key}/usage`, with the context in the X-ZENMANAGE-CONTEXT header)
+   *
+   * At most USAGE_CONCURRENCY requests are in flight at once, and duplicate records are sent
+   * once. Throws when any request fails so the caller can retry the batch.
+   */
+  async sendUsage(records: UsageRecord[]): Promise<void> {
     if (!this.enableUsageReporting) {
       this.logger.debug('Usage reporting disabled, skipping HTTP call');
       return;
     }
 
-    try {
-      const url = `${this.baseUrl}/v1/flags/${key}/usage`;
-      const headers = { ...this.headers };
+    const requests = new Map<string, UsageRecord>();
+    for (const record of records) {
+      requests.set(JSON.stringify([record.key, record.context ?? null]), record);
+    }
 
-      // Send context as header only when it carries identifying targeting data
-      if (context && this.shouldSendContext(context)) {
-        headers['X-ZENMANAGE-CONTEXT'] = JSON.stringify(context.toJSON());
+    const queue = [...requests.values()];
+    const failures: Error[] = [];
+    const worker = async (): Promise<void> => {
+      for (let record = queue.shift(); record; record = queue.shift()) {
+        await this.sendUsageRequest(record).catch((error: Error) => failures.push(error));
       }
+    };
 
-      this.logger.debug(`Sending reportUsage request to ${url}`, { method: 'POST' });
-
-      // Fire and forget - don't wait for response
-      this.fetch(url, {
-        method: 'POST',
-        headers,
-      }).catch((error) => {
-        this.logger.debug('Failed to report usage', { error: error.message });
-      });
-    } catch (error) {
-      // Silently ignore usage reporting errors
-      this.logger.debug('Failed to report usage', { error: (error as Error).message });
+    await Promise.all(Array.from({ length: Math.min(USAGE_CONCURRENCY, queue.length) }, worker));
+
+    if (failures.length > 0) {
+      throw new Error(
+        `${failures.length} of ${requests.size} usage requests failed: ${failures[0].message}`
+      );
     }
   }
 
-  private shouldSendContext(context: Context): boolean {
+  private async sendUsageRequest(record: UsageRecord): Promise<void> {
+    const url = `${this.baseUrl}/v1/flags/${encodeURIComponent(record.key)}/usage`;
+    const headers = { ...this.headers };
+
+    // Send context as header only when it carries identifying targeting data
+    if (record.context && this.shouldSendContext(record.context)) {
+      headers['X-ZENMANAGE-CONTEXT'] = JSON.stringify(record.context);
+    }
+
+    this.logger.debug(`Sending reportUsage request to ${url}`, { method: 'POST' });
+
+    // keepalive lets a flush started by pagehide finish after the page is gone
+    const response = await this.fetch(url, { method: 'POST', headers, keepalive: true });
+
+    if (!response.ok) {
+      throw new Error(`Usage request failed with status ${response.status}`);
+    }
+  }
+
+  private shouldSendContext(context: ContextData): boolean {
     return !(
-      context.getType() === 'anonymous' &&
-      context.getName() === undefined &&
-      context.getIdentifier() === undefined &&
-      context.getAttributes().length === 0
+      context.type === 'anonymous' &&
+      context.name === undefined &&
+      context.identifier === undefined &&
+      (context.attributes ?? []).length === 0
     );
   }
 
+  private handleStreamEvent(event: StreamEvent, listener: RulesStreamListener): void {
+    switch (event.event) {
+      case 'rules': {
+        let data: unknown;
+        try {
+          data = JSON.parse(event.data);
+        } catch (error) {
+          this.logger.warn('Failed to parse streamed rules', { error: (error as Error).message });
+          return;
+        }
+
+        if (!isValidRulesResponse(data)) {
+          this.logger.warn('Invalid rules format received from stream');
+          return;
+        }
+
+        listener.onRules(data);
+        return;
+      }
+
+      case 'rules_changed':
+        listener.onRulesChanged();
+        return;
+
+      default:
+        this.logger.debug(`Ignoring stream event: ${event.event}`);
+    }
+  }
+
   /**
    * Get the CDN URL for rules from the API metadata endpoint
    */
@@ -204,27 +279,6 @@ export class ApiClient {
     return 'cdn' in dataObj && 'path' in dataObj;
   }
 
-  /**
-   * Validate the rules response structure
-   */
-  private isValidRulesResponse(data: unknown): data is RulesResponse {
-    if (typeof data !== 'object' || data === null) {
-      return false;
-    }
-
-    const obj = data as Record<string, unknown>;
-
-    if (typeof obj.version !== 'string') {
-      return false;
-    }
-
-    if (!Array.isArray(obj.flags)) {
-      return false;
-    }
-
-    return true;
-  }
-
   /**
    * Fetch wrapper that works in both browser and Node.js
    */
@@ -1,3 +1,12 @@
+/**
+ * A raw cache entry, returned even after it has expired
+ */
+export interface CacheEntry {
+  value: string;
+  /** Expiry time in epoch milliseconds, or null if the entry never expires */
+  expires: number | null;
+}
+
 /**
  * Cache interface for storing flag rules
  */
@@ -7,4 +16,9 @@ export interface Cache {
   has(key: string): Promise<boolean>;
   delete(key: string): Promise<void>;
   clear(): Promise<void>;
+  /**
+   * Read an entry without enforcing its TTL (optional).
+   * Used by stale-while-revalidate to serve expired rules while they are refreshed.
+   */
+  getEntry?(key: string): Promise<CacheEntry | null>;
 }
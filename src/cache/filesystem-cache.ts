@@ -1,4 +1,4 @@
-import type { Cache } from './cache.interface';
+import type { Cache, CacheEntry } from './cache.interface';
 import * as fs from 'fs';
 import * as path from 'path';
 import { promisify } from 'util';
@@ -8,11 +8,6 @@ const readFile = promisify(fs.readFile);
 const unlink = promisify(fs.unlink);
 const readdir = promisify(fs.readdir);
 
-interface CacheItem {
-  value: string;
-  expires: number | null;
-}
-
 /**
  * Filesystem cache implementation (Node.js only)
  * Falls back to no-op in browser environments
@@ -55,7 +50,7 @@ export class FileSystemCache implements Cache {
 
     try {
       const data = await readFile(filePath, 'utf-8');
-      const item: CacheItem = JSON.parse(data);
+      const item: CacheEntry = JSON.parse(data);
 
       // Check if expired
       if (item.expires !== null && item.expires < Date.now()) {
@@ -76,7 +71,7 @@ export class FileSystemCache implements Cache {
     const filePath = this.getFilePath(key);
     const expires = ttl !== undefined ? Date.now() + ttl * 1000 : null;
 
-    const item: CacheItem = {
+    const item: CacheEntry = {
       value,
       expires,
     };
@@ -88,6 +83,19 @@ export class FileSystemCache implements Cache {
     }
   }
 
+  async getEntry(key: string): Promise<CacheEntry | null> {
+    if (!this.isNode) return null;
+
+    try {
+      const data = await readFile(this.getFilePath(key), 'utf-8');
+      const item: CacheEntry = JSON.parse(data);
+      return { value: item.value, expires: item.expires };
+    } catch (error) {
+      // File doesn't exist or is invalid
+      return null;
+    }
+  }
+
   async has(key: string): Promise<boolean> {
     const value = await this.get(key);
     return value !== null;
@@ -1,3 +1,3 @@
-export { Cache } from './cache.interface';
+export { Cache, CacheEntry } from './cache.interface';
 export { InMemoryCache } from './memory-cache';
 export { NullCache } from './null-cache';
@@ -1,10 +1,10 @@
-import type { Cache } from './cache.interface';
+import type { Cache, CacheEntry } from './cache.interface';
 
 /**
  * In-memory cache implementation (data persists only for current runtime)
  */
 export class InMemoryCache implements Cache {
-  private storage: Map<string, { value: string; expires: number | null }> = new Map();
+  private storage: Map<string, CacheEntry> = new Map();
 
   async get(key: string): Promise<string | null> {
     const item = this.storage.get(key);
@@ -31,6 +31,11 @@ export class InMemoryCache implements Cache {
     });
   }
 
+  async getEntry(key: string): Promise<CacheEntry | null> {
+    const item = this.storage.get(key);
+    return item ? { ...item } : null;
+  }
+
   async has(key: string): Promise<boolean> {
     const value = await this.get(key);
     return value !== null;
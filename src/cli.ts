@@ -0,0 +1,144 @@
+import * as fs from 'fs';
+import { promisify } from 'util';
+import type { Logger, RulesResponse } from './types';
+import { ApiClient } from './api-client';
+import { generateFlagDefinitions } from './codegen';
+import { readRulesFile } from './rules-file';
+import { ConfigurationError } from './errors';
+
+const writeFile = promisify(fs.writeFile);
+
+const DEFAULT_API_ENDPOINT = 'https://api.zenmanage.com';
+
+const USAGE = `Usage: zenmanage codegen [options]
+
+Generate TypeScript flag definitions from a rule set.
+
+Options:
+  --input <file>        Read rules from a JSON file
+  --endpoint <url>      Fetch rules from an API endpoint (default: ${DEFAULT_API_ENDPOINT})
+  --token <token>       Environment token for --endpoint (default: $ZENMANAGE_ENVIRONMENT_TOKEN)
+  --output <file>       Write the module to a file instead of stdout
+  --import-path <path>  Module to import DefaultsCollection from (default: @zenmanage/sdk)
+  --help                Show this message
+`;
+
+const OPTIONS = ['input', 'endpoint', 'token', 'output', 'import-path'];
+
+/**
+ * Output streams used by the CLI
+ */
+export interface CliIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+const processIO: CliIO = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+/**
+ * Logger that does nothing (the CLI reports errors itself)
+ */
+const silentLogger: Logger = {
+  debug() {},
+  info() {},
+  warn() {},
+  error() {},
+};
+
+/**
+ * Run the `zenmanage` command line interface
+ *
+ * @returns The process exit code
+ */
+export async function runCli(argv: string[], io: CliIO = processIO): Promise<number> {
+  const [command, ...rest] = argv;
+
+  if (command === undefined || command === '--help' || command === 'help') {
+    io.stdout(USAGE);
+    return command === undefined ? 1 : 0;
+  }
+
+  if (command !== 'codegen') {
+    io.stderr(`Unknown command: ${command}\n\n${USAGE}`);
+    return 1;
+  }
+
+  try {
+    const options = parseOptions(rest);
+
+    if (options.help !== undefined) {
+      io.stdout(USAGE);
+      return 0;
+    }
+
+    const rules = await loadRules(options);
+    const source = generateFlagDefinitions(rules, { importPath: options['import-path'] });
+
+    if (options.output !== undefined) {
+      await writeFile(options.output, source, 'utf-8');
+      io.stderr(`Wrote ${rules.flags.length} flag definitions to ${options.output}\n`);
+    } else {
+      io.stdout(source);
+    }
+
+    return 0;
+  } catch (error) {
+    io.stderr(`Error: ${(error as Error).message}\n`);
+    return 1;
+  }
+}
+
+function parseOptions(args: string[]): Record<string, string | undefined> {
+  const options: Record<string, string | undefined> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--help') {
+      options.help = '';
+      continue;
+    }
+
+    if (!arg.startsWith('--')) {
+      throw new ConfigurationError(`Unexpected argument: ${arg}`);
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+
+    if (!OPTIONS.includes(name)) {
+      throw new ConfigurationError(`Unknown option: --${name}`);
+    }
+
+    const value = inlineValue ?? args[++i];
+    if (value === undefined || value === '') {
+      throw new ConfigurationError(`Option --${name} requires a value`);
+    }
+
+    options[name] = value;
+  }
+
+  if (options.input !== undefined && options.endpoint !== undefined) {
+    throw new ConfigurationError('Use either --input or --endpoint, not both');
+  }
+
+  return options;
+}
+
+async function loadRules(options: Record<string, string | undefined>): Promise<RulesResponse> {
+  if (options.input !== undefined) {
+    return readRulesFile(options.input);
+  }
+
+  const token = options.token ?? process.env.ZENMANAGE_ENVIRONMENT_TOKEN;
+  if (!token) {
+    throw new ConfigurationError(
+      'An environment token is required to fetch rules (--token or ZENMANAGE_ENVIRONMENT_TOKEN)'
+    );
+  }
+
+  const client = new ApiClient(token, options.endpoint ?? DEFAULT_API_ENDPOINT, silentLogger);
+  return client.getRules();
+}
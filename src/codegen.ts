@@ -0,0 +1,98 @@
+import type { FlagData, FlagType, FlagValue, RulesResponse } from './types';
+
+/**
+ * Options for generating flag definitions
+ */
+export interface CodegenOptions {
+  /** Module the generated file imports DefaultsCollection from (default: '@zenmanage/sdk') */
+  importPath?: string;
+}
+
+const DEFAULT_IMPORT_PATH = '@zenmanage/sdk';
+
+const TS_TYPES: Record<FlagType, string> = {
+  boolean: 'boolean',
+  string: 'string',
+  number: 'number',
+};
+
+const FALLBACK_VALUES: Record<FlagType, FlagValue> = {
+  boolean: false,
+  string: '',
+  number: 0,
+};
+
+/**
+ * Generate a TypeScript module describing the flags in a rule set
+ *
+ * The module exports a union of flag keys (`ZenmanageFlagKey`), a key→value type map
+ * (`ZenmanageFlags`) usable as a flag schema, the flags' current target values
+ * (`flagDefaults`) and a `createDefaults()` helper that seeds a typed DefaultsCollection.
+ */
+export function generateFlagDefinitions(
+  rules: RulesResponse,
+  options: CodegenOptions = {}
+): string {
+  const importPath = options.importPath ?? DEFAULT_IMPORT_PATH;
+  const flags = [...rules.flags].sort((a, b) => a.key.localeCompare(b.key));
+  const lines: string[] = [];
+
+  lines.push('// This file is generated by `zenmanage codegen`. Do not edit it by hand.');
+  lines.push(`// Rules version: ${escapeComment(rules.version)}`);
+  lines.push('');
+  lines.push(`import { DefaultsCollection } from ${JSON.stringify(importPath)};`);
+  lines.push('');
+
+  if (flags.length === 0) {
+    lines.push('export type ZenmanageFlagKey = never;');
+  } else {
+    lines.push('export type ZenmanageFlagKey =');
+    flags.forEach((flag, index) => {
+      const end = index === flags.length - 1 ? ';' : '';
+      lines.push(`  | ${JSON.stringify(flag.key)}${end}`);
+    });
+  }
+  lines.push('');
+
+  lines.push('export type ZenmanageFlags = {');
+  for (const flag of flags) {
+    lines.push(`  /** ${escapeComment(flag.name || flag.key)} */`);
+    lines.push(`  ${propertyName(flag.key)}: ${TS_TYPES[flag.type] ?? 'string'};`);
+  }
+  lines.push('};');
+  lines.push('');
+
+  lines.push('export const flagDefaults: ZenmanageFlags = {');
+  for (const flag of flags) {
+    lines.push(`  ${propertyName(flag.key)}: ${JSON.stringify(targetValue(flag))},`);
+  }
+  lines.push('};');
+  lines.push('');
+
+  lines.push('export function createDefaults(): DefaultsCollection<ZenmanageFlags> {');
+  lines.push('  return DefaultsCollection.fromObject<ZenmanageFlags>(flagDefaults);');
+  lines.push('}');
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * The flag's target value, or a zero value for its type when the target has none
+ */
+function targetValue(flag: FlagData): FlagValue {
+  const fallback = FALLBACK_VALUES[flag.type] ?? '';
+  const value = flag.target?.value?.value?.[flag.type];
+  return typeof value === typeof fallback ? (value as FlagValue) : fallback;
+}
+
+function propertyName(key: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Make text safe inside a generated comment: no comment terminator and no line breaks
+ */
+function escapeComment(text: string): string {
+  return text.replace(/\*\//g, '*\\/').replace(/[\r\n\u2028\u2029]+/g, ' ');
+}
@@ -1,6 +1,7 @@
-import type { Config, Logger } from './types';
+import type { Clock, Config, Logger, PrivateAttributeMode, RulesResponse } from './types';
 import type { Cache } from './cache/cache.interface';
 import { ConfigurationError } from './errors';
+import { isValidRulesResponse } from './rules';
 
 type Runtime = 'node' | 'browser';
 type KeyType = 'server' | 'client' | 'mobile' | 'unknown';
@@ -30,7 +31,7 @@ export class ConfigBuilder {
     apiEndpoint: 'https://api.zenmanage.com',
   };
 
-  private constructor() {}
+  protected constructor() {}
 
   /**
    * Create a new ConfigBuilder instance
@@ -43,45 +44,105 @@ export class ConfigBuilder {
    * Create a ConfigBuilder with values from environment variables
    */
   static fromEnvironment(): ConfigBuilder {
-    const builder = new ConfigBuilder();
+    return new ConfigBuilder().loadEnvironment();
+  }
 
+  /**
+   * Apply the ZENMANAGE_* environment variables to this builder
+   */
+  protected loadEnvironment(): this {
     if (typeof process === 'undefined' || !process.env) {
-      return builder;
+      return this;
     }
 
     const token = process.env.ZENMANAGE_ENVIRONMENT_TOKEN;
     if (token) {
-      builder.withEnvironmentToken(token);
+      this.withEnvironmentToken(token);
     }
 
     const cacheTtl = process.env.ZENMANAGE_CACHE_TTL;
     if (cacheTtl && !isNaN(Number(cacheTtl))) {
-      builder.withCacheTtl(Number(cacheTtl));
+      this.withCacheTtl(Number(cacheTtl));
     }
 
     const cacheBackend = process.env.ZENMANAGE_CACHE_BACKEND;
     if (cacheBackend && ['memory', 'filesystem', 'null'].includes(cacheBackend)) {
-      builder.withCacheBackend(cacheBackend as 'memory' | 'filesystem' | 'null');
+      this.withCacheBackend(cacheBackend as 'memory' | 'filesystem' | 'null');
     }
 
     const cacheDir = process.env.ZENMANAGE_CACHE_DIR;
     if (cacheDir) {
-      builder.withCacheDirectory(cacheDir);
+      this.withCacheDirectory(cacheDir);
     }
 
     const enableReporting = process.env.ZENMANAGE_ENABLE_USAGE_REPORTING;
     if (enableReporting === 'true' || enableReporting === '1') {
-      builder.withUsageReporting(true);
+      this.withUsageReporting(true);
     } else if (enableReporting === 'false' || enableReporting === '0') {
-      builder.withUsageReporting(false);
+      this.withUsageReporting(false);
+    }
+
+    const usageFlushInterval = process.env.ZENMANAGE_USAGE_FLUSH_INTERVAL;
+    if (usageFlushInterval && !isNaN(Number(usageFlushInterval))) {
+      this.withUsageFlushInterval(Number(usageFlushInterval));
     }
 
     const apiEndpoint = process.env.ZENMANAGE_API_ENDPOINT;
     if (apiEndpoint) {
-      builder.withApiEndpoint(apiEndpoint);
+      this.withApiEndpoint(apiEndpoint);
+    }
+
+    const maxStale = process.env.ZENMANAGE_CACHE_MAX_STALE;
+    if (maxStale && !isNaN(Number(maxStale))) {
+      this.withStaleWhileRevalidate(Number(maxStale));
+    }
+
+    const pollingInterval = process.env.ZENMANAGE_POLLING_INTERVAL;
+    if (pollingInterval && !isNaN(Number(pollingInterval))) {
+      this.withPollingInterval(Number(pollingInterval));
+    }
+
+    const offline = process.env.ZENMANAGE_OFFLINE;
+    if (offline === 'true' || offline === '1') {
+      this.withOffline(true);
+    } else if (offline === 'false' || offline === '0') {
+      this.withOffline(false);
+    }
+
+    const enableStreaming = process.env.ZENMANAGE_ENABLE_STREAMING;
+    if (enableStreaming === 'true' || enableStreaming === '1') {
+      this.withStreaming(true);
+    } else if (enableStreaming === 'false' || enableStreaming === '0') {
+      this.withStreaming(false);
     }
 
-    return builder;
+    const bucketBy = process.env.ZENMANAGE_BUCKET_BY;
+    if (bucketBy) {
+      this.withBucketBy(bucketBy);
+    }
+
+    const privateAttributes = process.env.ZENMANAGE_PRIVATE_ATTRIBUTES;
+    if (privateAttributes) {
+      const keys = privateAttributes
+        .split(',')
+        .map((key) => key.trim())
+        .filter((key) => key.length > 0);
+      this.withPrivateAttributes(...keys);
+    }
+
+    const allAttributesPrivate = process.env.ZENMANAGE_ALL_ATTRIBUTES_PRIVATE;
+    if (allAttributesPrivate === 'true' || allAttributesPrivate === '1') {
+      this.withAllAttributesPrivate(true);
+    } else if (allAttributesPrivate === 'false' || allAttributesPrivate === '0') {
+      this.withAllAttributesPrivate(false);
+    }
+
+    const privateAttributeMode = process.env.ZENMANAGE_PRIVATE_ATTRIBUTE_MODE;
+    if (privateAttributeMode === 'strip' || privateAttributeMode === 'hash') {
+      this.withPrivateAttributeMode(privateAttributeMode);
+    }
+
+    return this;
   }
 
   /**
@@ -124,6 +185,30 @@ export class ConfigBuilder {
     return this;
   }
 
+  /**
+   * Send batched usage reports every `interval` seconds
+   */
+  withUsageFlushInterval(interval: number): this {
+    this.config.usageFlushInterval = interval;
+    return this;
+  }
+
+  /**
+   * Send usage early once `size` distinct flag/context/value records are buffered
+   */
+  withUsageBatchSize(size: number): this {
+    this.config.usageBatchSize = size;
+    return this;
+  }
+
+  /**
+   * Cap the number of distinct usage records held in memory; further records are dropped
+   */
+  withUsageMaxQueueSize(size: number): this {
+    this.config.usageMaxQueueSize = size;
+    return this;
+  }
+
   /**
    * Set the API endpoint
    */
@@ -141,6 +226,95 @@ export class ConfigBuilder {
     return this;
   }
 
+  /**
+   * Serve expired rules for up to `maxStale` seconds while they are refreshed in the background.
+   * Past that limit, evaluation falls back to default values until a refresh succeeds.
+   * `maxStale` must be greater than 0; leave it unset to keep blocking on expired rules.
+   */
+  withStaleWhileRevalidate(maxStale: number): this {
+    this.config.cacheMaxStale = maxStale;
+    return this;
+  }
+
+  /**
+   * Refresh rules from the API in the background every `interval` seconds
+   */
+  withPollingInterval(interval: number): this {
+    this.config.pollingInterval = interval;
+    return this;
+  }
+
+  /**
+   * Receive rule updates over a Server-Sent Events stream.
+   * While the stream is unavailable, rules are polled (at the polling interval, or every 60 seconds).
+   */
+  withStreaming(enabled: boolean = true): this {
+    this.config.enableStreaming = enabled;
+    return this;
+  }
+
+  /**
+   * Start from a known rule set so flags can be evaluated before (or without) contacting the API.
+   * In Node.js, load a rules file with withBootstrapFile() on the ConfigBuilder from
+   * '@zenmanage/sdk/node'.
+   */
+  withBootstrap(rules: RulesResponse): this {
+    this.config.bootstrap = rules;
+    return this;
+  }
+
+  /**
+   * Never contact the API: flags are evaluated from bootstrap rules and default values only.
+   * No environment token is required in offline mode.
+   */
+  withOffline(enabled: boolean = true): this {
+    this.config.offline = enabled;
+    return this;
+  }
+
+  /**
+   * Set the clock used to evaluate date rules and target schedules (useful for testing)
+   */
+  withClock(clock: Clock): this {
+    this.config.clock = clock;
+    return this;
+  }
+
+  /**
+   * Bucket rollouts on a context attribute (e.g. "org_id") instead of the context identifier.
+   * Rollouts that name their own attribute take precedence.
+   */
+  withBucketBy(attribute: string): this {
+    this.config.bucketBy = attribute;
+    return this;
+  }
+
+  /**
+   * Keep these attributes (by key) out of usage reports; they are still used for targeting.
+   * Individual attributes can also be marked private with Attribute.setPrivate().
+   */
+  withPrivateAttributes(...keys: string[]): this {
+    this.config.privateAttributes = [...(this.config.privateAttributes ?? []), ...keys];
+    return this;
+  }
+
+  /**
+   * Keep every context attribute out of usage reports (type, name and identifier are still sent)
+   */
+  withAllAttributesPrivate(enabled: boolean = true): this {
+    this.config.allAttributesPrivate = enabled;
+    return this;
+  }
+
+  /**
+   * Strip private attributes from usage reports (the default), or send SHA-256 hashes of
+   * their values instead
+   */
+  withPrivateAttributeMode(mode: PrivateAttributeMode): this {
+    this.config.privateAttributeMode = mode;
+    return this;
+  }
+
   /**
    * Set a custom logger
    */
@@ -153,12 +327,15 @@ export class ConfigBuilder {
    * Build and validate the configuration
    */
   build(): Config {
-    if (!this.config.environmentToken) {
+    if (this.config.environmentToken) {
+      this.validateEnvironmentTokenForRuntime(this.config.environmentToken);
+    } else if (this.config.offline) {
+      // Offline mode never contacts the API, so it does not need a token
+      this.config.environmentToken = '';
+    } else {
       throw new ConfigurationError('Environment token is required');
     }
 
-    this.validateEnvironmentTokenForRuntime(this.config.environmentToken);
-
     if (
       this.config.cacheBackend === 'filesystem' &&
       !this.config.cacheDirectory &&
@@ -167,6 +344,37 @@ export class ConfigBuilder {
       throw new ConfigurationError('Cache directory is required for filesystem cache');
     }
 
+    if (this.config.bootstrap !== undefined && !isValidRulesResponse(this.config.bootstrap)) {
+      throw new ConfigurationError('Bootstrap rules must be a valid rules response');
+    }
+
+    if (this.config.cacheMaxStale !== undefined && this.config.cacheMaxStale <= 0) {
+      throw new ConfigurationError('Cache max stale must be greater than 0');
+    }
+
+    if (this.config.pollingInterval !== undefined && this.config.pollingInterval <= 0) {
+      throw new ConfigurationError('Polling interval must be greater than 0');
+    }
+
+    if (this.config.usageFlushInterval !== undefined && this.config.usageFlushInterval <= 0) {
+      throw new ConfigurationError('Usage flush interval must be greater than 0');
+    }
+
+    if (this.config.usageBatchSize !== undefined && this.config.usageBatchSize < 1) {
+      throw new ConfigurationError('Usage batch size must be at least 1');
+    }
+
+    if (this.config.usageMaxQueueSize !== undefined && this.config.usageMaxQueueSize < 1) {
+      throw new ConfigurationError('Usage max queue size must be at least 1');
+    }
+
+    if (
+      this.config.privateAttributeMode !== undefined &&
+      !['strip', 'hash'].includes(this.config.privateAttributeMode)
+    ) {
+      throw new ConfigurationError("Private attribute mode must be 'strip' or 'hash'");
+    }
+
     // Provide default logger if not set
     if (!this.config.logger) {
       this.config.logger = new NullLogger();
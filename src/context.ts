@@ -1,13 +1,84 @@
-import type { ContextData } from './types';
+import type {
+  AttributeValue,
+  AttributeValueType,
+  ContextAttribute,
+  ContextData,
+  ContextValue,
+} from './types';
+import { getAnonymousIdentifier, type IdentifierStorage } from './anonymous-id';
+import { ZenmanageError } from './errors';
+import { parseDate } from './dates';
 
 /**
  * Represents an attribute value in a context
  */
 export class Value {
-  constructor(public readonly value: string) {}
+  /** The value as a string (see toString()) */
+  public readonly value: string;
 
-  toJSON(): { value: string } {
-    return { value: this.value };
+  constructor(private readonly typedValue: AttributeValue) {
+    this.value = Value.serialize(typedValue);
+  }
+
+  /**
+   * Create a value from its serialized form; values that do not parse as their declared
+   * type are kept as strings
+   */
+  static fromObject(data: ContextValue): Value {
+    switch (data.type) {
+      case 'number': {
+        const number = Number(data.value);
+        return new Value(data.value.trim() === '' || isNaN(number) ? data.value : number);
+      }
+
+      case 'boolean':
+        return data.value === 'true' || data.value === 'false'
+          ? new Value(data.value === 'true')
+          : new Value(data.value);
+
+      case 'date': {
+        const time = parseDate(data.value);
+        return new Value(time === null ? data.value : new Date(time));
+      }
+
+      default:
+        return new Value(data.value);
+    }
+  }
+
+  /**
+   * The value with its native type
+   */
+  getTypedValue(): AttributeValue {
+    return this.typedValue;
+  }
+
+  getType(): AttributeValueType {
+    if (this.typedValue instanceof Date) {
+      return 'date';
+    }
+
+    return typeof this.typedValue as 'string' | 'number' | 'boolean';
+  }
+
+  /**
+   * The value as a string: numbers in decimal, booleans as "true"/"false", dates in ISO-8601
+   */
+  toString(): string {
+    return this.value;
+  }
+
+  toJSON(): ContextValue {
+    const type = this.getType();
+    return type === 'string' ? { value: this.value } : { value: this.value, type };
+  }
+
+  private static serialize(value: AttributeValue): string {
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? '' : value.toISOString();
+    }
+
+    return String(value);
   }
 }
 
@@ -19,7 +90,8 @@ export class Attribute {
 
   constructor(
     public readonly key: string,
-    values: string[] = []
+    values: AttributeValue[] = [],
+    private privateAttribute: boolean = false
   ) {
     this.values = values.map((v) => new Value(v));
   }
@@ -28,23 +100,53 @@ export class Attribute {
     return this.key;
   }
 
+  /**
+   * Whether the attribute is redacted from usage reports (it is still used for targeting)
+   */
+  isPrivate(): boolean {
+    return this.privateAttribute;
+  }
+
+  setPrivate(enabled: boolean = true): this {
+    this.privateAttribute = enabled;
+    return this;
+  }
+
+  /**
+   * The values as strings (see Value.toString())
+   */
   getValues(): string[] {
     return this.values.map((v) => v.value);
   }
 
-  addValue(value: string): this {
+  /**
+   * The values with their native types
+   */
+  getTypedValues(): AttributeValue[] {
+    return this.values.map((v) => v.getTypedValue());
+  }
+
+  addValue(value: AttributeValue): this {
     this.values.push(new Value(value));
     return this;
   }
 
-  toJSON(): { key: string; values: { value: string }[] } {
-    return {
+  toJSON(): ContextAttribute {
+    const result: ContextAttribute = {
       key: this.key,
       values: this.values.map((v) => v.toJSON()),
     };
+
+    if (this.privateAttribute) {
+      result.private = true;
+    }
+
+    return result;
   }
 }
 
+const MULTI_CONTEXT_TYPE = 'multi';
+
 /**
  * Represents the evaluation context containing attributes for rule matching
  */
@@ -64,12 +166,16 @@ export class Context {
    * Create a context from plain data object
    */
   static fromObject(data: ContextData): Context {
+    if (data.type === MULTI_CONTEXT_TYPE) {
+      return new MultiContext((data.contexts ?? []).map((entry) => Context.fromObject(entry)));
+    }
+
     const context = new Context(data.type, data.name, data.identifier);
 
     if (data.attributes) {
       data.attributes.forEach((attrData) => {
-        const values = attrData.values.map((v) => v.value);
-        context.addAttribute(new Attribute(attrData.key, values));
+        const values = attrData.values.map((v) => Value.fromObject(v).getTypedValue());
+        context.addAttribute(new Attribute(attrData.key, values, attrData.private ?? false));
       });
     }
 
@@ -83,6 +189,15 @@ export class Context {
     return new Context(type, name, identifier);
   }
 
+  /**
+   * Create an anonymous context whose identifier persists across visits (in browsers,
+   * via localStorage), so anonymous visitors can be bucketed into rollouts. Without storage
+   * each call creates a context with a new identifier.
+   */
+  static anonymous(storage?: IdentifierStorage | null): Context {
+    return new Context('anonymous', undefined, getAnonymousIdentifier(storage));
+  }
+
   getType(): string {
     return this.type;
   }
@@ -102,6 +217,20 @@ export class Context {
     return this.identifier;
   }
 
+  /**
+   * The individual contexts making up this context (just this context unless it is a MultiContext)
+   */
+  getContexts(): Context[] {
+    return [this];
+  }
+
+  /**
+   * Get the individual context of a type (kind), if there is one
+   */
+  getContext(type: string): Context | undefined {
+    return this.type === type ? this : undefined;
+  }
+
   addAttribute(attribute: Attribute): this {
     this.attributes.set(attribute.key, attribute);
     return this;
@@ -140,3 +269,89 @@ export class Context {
     return result;
   }
 }
+
+/**
+ * Evaluation context made up of several typed contexts, e.g. a user, their organization
+ * and their device
+ *
+ * `context` and `segment` clauses match any of the contexts by type, attribute clauses can
+ * be scoped to one kind with `context_kind` (unscoped clauses see the attribute values of
+ * every context), and rollouts bucket on the kind they name or on the first context.
+ */
+export class MultiContext extends Context {
+  private readonly contexts: Map<string, Context> = new Map();
+
+  constructor(contexts: Context[] = []) {
+    super(MULTI_CONTEXT_TYPE);
+    contexts.forEach((context) => this.add(context));
+  }
+
+  /**
+   * Create a multi-context from individual contexts
+   */
+  static of(...contexts: Context[]): MultiContext {
+    return new MultiContext(contexts);
+  }
+
+  /**
+   * Add a context, replacing any context of the same type. The contexts of another
+   * MultiContext are added individually.
+   */
+  add(context: Context): this {
+    for (const entry of context.getContexts()) {
+      this.contexts.set(entry.getType(), entry);
+    }
+    return this;
+  }
+
+  getContexts(): Context[] {
+    return Array.from(this.contexts.values());
+  }
+
+  getContext(type: string): Context | undefined {
+    return this.contexts.get(type);
+  }
+
+  addAttribute(_attribute: Attribute): this {
+    throw new ZenmanageError(
+      'Attributes must be added to the individual contexts of a MultiContext'
+    );
+  }
+
+  /**
+   * Get an attribute with the values it has across all contexts
+   */
+  getAttribute(key: string): Attribute | undefined {
+    const attributes = this.getContexts()
+      .map((context) => context.getAttribute(key))
+      .filter((attribute): attribute is Attribute => attribute !== undefined);
+
+    if (attributes.length === 0) {
+      return undefined;
+    }
+
+    return new Attribute(
+      key,
+      attributes.flatMap((attribute) => attribute.getTypedValues()),
+      attributes.some((attribute) => attribute.isPrivate())
+    );
+  }
+
+  hasAttribute(key: string): boolean {
+    return this.getContexts().some((context) => context.hasAttribute(key));
+  }
+
+  getAttributes(): Attribute[] {
+    const keys = new Set(
+      this.getContexts().flatMap((context) => context.getAttributes().map((attr) => attr.key))
+    );
+    return Array.from(keys, (key) => this.getAttribute(key) as Attribute);
+  }
+
+  toJSON(): ContextData {
+    return {
+      type: MULTI_CONTEXT_TYPE,
+      contexts: this.getContexts().map((context) => context.toJSON()),
+    };
+  }
+}
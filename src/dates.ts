@@ -0,0 +1,78 @@
+/**
+ * Date and duration parsing for targeting rules
+ */
+
+// Epoch values below this are taken as seconds, at or above it as milliseconds (~1973 in ms)
+const EPOCH_MILLISECONDS_THRESHOLD = 1e11;
+
+const ISO_DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/i;
+const EPOCH_PATTERN = /^-?\d+(?:\.\d+)?$/;
+const DURATION_PATTERN =
+  /^(\d+(?:\.\d+)?)\s*(ms|milliseconds?|s|secs?|seconds?|m|mins?|minutes?|h|hrs?|hours?|d|days?|w|weeks?)$/i;
+const ISO_DURATION_PATTERN =
+  /^P(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i;
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+const UNITS: Record<string, number> = {
+  ms: 1,
+  s: SECOND,
+  m: MINUTE,
+  h: HOUR,
+  d: DAY,
+  w: WEEK,
+};
+
+/**
+ * Parse an ISO-8601 date (`2026-03-01`, `2026-03-01T12:00:00Z`) or an epoch timestamp in
+ * seconds or milliseconds into epoch milliseconds. Returns null if the value is not a date.
+ * ISO dates without a time zone are read as UTC.
+ */
+export function parseDate(value: string): number | null {
+  const text = value.trim();
+
+  if (EPOCH_PATTERN.test(text)) {
+    const epoch = Number(text);
+    return Math.abs(epoch) < EPOCH_MILLISECONDS_THRESHOLD ? epoch * SECOND : epoch;
+  }
+
+  if (!ISO_DATE_PATTERN.test(text)) {
+    return null;
+  }
+
+  // Date.parse reads date-times without an offset as local time; pin them to UTC
+  const hasTime = /[T ]\d/.test(text.slice(10));
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/i.test(text);
+  const normalized = hasTime && !hasZone ? `${text.replace(' ', 'T')}Z` : text.replace(' ', 'T');
+  const time = Date.parse(normalized);
+
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Parse a duration such as `30d`, `30 days`, `12h`, `90 minutes` or ISO-8601 `P30D` /
+ * `PT12H` into milliseconds. Returns null if the value is not a duration.
+ */
+export function parseDuration(value: string): number | null {
+  const text = value.trim();
+
+  const simple = DURATION_PATTERN.exec(text);
+  if (simple) {
+    const unit = simple[2].toLowerCase();
+    const key = unit === 'ms' || unit.startsWith('milli') ? 'ms' : unit[0];
+    return Number(simple[1]) * UNITS[key];
+  }
+
+  const iso = ISO_DURATION_PATTERN.exec(text);
+  if (iso && iso.slice(1).some((part) => part !== undefined)) {
+    const [weeks, days, hours, minutes, seconds] = iso.slice(1).map((part) => Number(part ?? 0));
+    return weeks * WEEK + days * DAY + hours * HOUR + minutes * MINUTE + seconds * SECOND;
+  }
+
+  return null;
+}
@@ -1,18 +1,31 @@
-import type { FlagValue } from './types';
+import type { FlagKey, FlagSchema } from './types';
+
+/**
+ * Blocks type inference from an argument, so fromObject() uses the explicit or default schema
+ * instead of narrowing to the object literal it was given
+ */
+type NoInferSchema<T> = [T][T extends unknown ? 0 : never];
 
 /**
  * Collection for managing default flag values
+ *
+ * Pass a flag schema to restrict keys and value types, e.g. `DefaultsCollection<MyFlags>`.
  */
-export class DefaultsCollection {
-  private defaults: Map<string, FlagValue> = new Map();
+export class DefaultsCollection<TFlags extends FlagSchema<TFlags> = FlagSchema> {
+  private defaults: Map<FlagKey<TFlags>, TFlags[FlagKey<TFlags>]> = new Map();
 
   /**
    * Create a DefaultsCollection from an object
    */
-  static fromObject(obj: Record<string, FlagValue>): DefaultsCollection {
-    const collection = new DefaultsCollection();
-    Object.entries(obj).forEach(([key, value]) => {
-      collection.set(key, value);
+  static fromObject<TFlags extends FlagSchema<TFlags> = FlagSchema>(
+    obj: Partial<NoInferSchema<TFlags>>
+  ): DefaultsCollection<TFlags> {
+    const collection = new DefaultsCollection<TFlags>();
+    (Object.keys(obj) as FlagKey<TFlags>[]).forEach((key) => {
+      const value = obj[key];
+      if (value !== undefined) {
+        collection.set(key, value as TFlags[typeof key]);
+      }
     });
     return collection;
   }
@@ -20,7 +33,7 @@ export class DefaultsCollection {
   /**
    * Set a default value for a flag
    */
-  set(key: string, value: FlagValue): this {
+  set<K extends FlagKey<TFlags>>(key: K, value: TFlags[K]): this {
     this.defaults.set(key, value);
     return this;
   }
@@ -28,21 +41,21 @@ export class DefaultsCollection {
   /**
    * Get a default value for a flag
    */
-  get(key: string): FlagValue | undefined {
-    return this.defaults.get(key);
+  get<K extends FlagKey<TFlags>>(key: K): TFlags[K] | undefined {
+    return this.defaults.get(key) as TFlags[K] | undefined;
   }
 
   /**
    * Check if a default exists for a flag
    */
-  has(key: string): boolean {
+  has(key: FlagKey<TFlags>): boolean {
     return this.defaults.has(key);
   }
 
   /**
    * Delete a default value
    */
-  delete(key: string): boolean {
+  delete(key: FlagKey<TFlags>): boolean {
     return this.defaults.delete(key);
   }
 
@@ -56,7 +69,7 @@ export class DefaultsCollection {
   /**
    * Get all default keys
    */
-  keys(): string[] {
+  keys(): FlagKey<TFlags>[] {
     return Array.from(this.defaults.keys());
   }
 
@@ -0,0 +1,200 @@
+import type { Logger, RuleCondition, SegmentData } from './types';
+import type { Flag } from './flag';
+
+/**
+ * Events emitted by the SDK:
+ * - `ready`: rules became available for the first time
+ * - `change`: a refresh changed one or more flags, their segments or their prerequisites
+ *   (receives the changed keys)
+ * - `change:<key>`: a refresh changed a single flag (receives the key)
+ * - `error`: fetching rules failed (receives the error)
+ */
+export type FlagEventName = 'ready' | 'change' | 'error' | `change:${string}`;
+
+/**
+ * Listener signature for each event
+ */
+export type FlagEventListener<E extends FlagEventName> = E extends 'ready'
+  ? () => void
+  : E extends 'error'
+    ? (error: Error) => void
+    : E extends 'change'
+      ? (keys: string[]) => void
+      : (key: string) => void;
+
+type AnyListener = ((...args: never[]) => void) & {
+  /** The listener passed to once(), so off() can remove its wrapper */
+  original?: AnyListener;
+};
+
+/**
+ * Minimal, browser-safe event emitter for flag lifecycle events
+ *
+ * Listener errors are logged and never interrupt the refresh that triggered them.
+ */
+export class FlagEventEmitter {
+  private listeners: Map<string, AnyListener[]> = new Map();
+
+  constructor(private readonly logger: Logger) {}
+
+  on<E extends FlagEventName>(event: E, listener: FlagEventListener<E>): void {
+    const listeners = this.listeners.get(event) || [];
+    listeners.push(listener as AnyListener);
+    this.listeners.set(event, listeners);
+  }
+
+  once<E extends FlagEventName>(event: E, listener: FlagEventListener<E>): void {
+    const wrapper: AnyListener = (...args: never[]) => {
+      this.off(event, wrapper as FlagEventListener<E>);
+      (listener as AnyListener)(...args);
+    };
+    wrapper.original = listener as AnyListener;
+
+    this.on(event, wrapper as FlagEventListener<E>);
+  }
+
+  off<E extends FlagEventName>(event: E, listener: FlagEventListener<E>): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+
+    const remaining = listeners.filter((l) => l !== listener && l.original !== listener);
+    if (remaining.length > 0) {
+      this.listeners.set(event, remaining);
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+
+  emit<E extends FlagEventName>(event: E, ...args: Parameters<FlagEventListener<E>>): void {
+    // Copy so listeners can unsubscribe while being notified
+    const listeners = [...(this.listeners.get(event) || [])];
+
+    for (const listener of listeners) {
+      try {
+        (listener as (...a: unknown[]) => void)(...args);
+      } catch (error) {
+        this.logger.error(`Listener for "${event}" threw an error`, {
+          error: (error as Error).message,
+        });
+      }
+    }
+  }
+
+  listenerCount(event: FlagEventName): number {
+    return this.listeners.get(event)?.length ?? 0;
+  }
+}
+
+/**
+ * Compute the keys of flags that may evaluate differently between two rule sets: flags
+ * whose definitions were added, removed or changed, flags referencing a changed segment
+ * (directly or through other segments), and flags whose prerequisites (transitively) changed
+ */
+export function diffFlagKeys(
+  previous: Flag[],
+  next: Flag[],
+  previousSegments: SegmentData[] = [],
+  nextSegments: SegmentData[] = []
+): string[] {
+  const changed = new Set(
+    diffKeys(
+      previous.map((flag) => [flag.getKey(), flag.toJSON()]),
+      next.map((flag) => [flag.getKey(), flag.toJSON()])
+    )
+  );
+
+  const segmentReferences = new Map(
+    nextSegments.map((segment) => [segment.key, collectSegmentKeys(segment.rules)])
+  );
+  const changedSegments = expand(
+    diffKeys(
+      previousSegments.map((segment) => [segment.key, segment]),
+      nextSegments.map((segment) => [segment.key, segment])
+    ),
+    segmentReferences
+  );
+
+  for (const flag of next) {
+    const segments = collectSegmentKeys([flag.getRules(), flag.getRollout()]);
+    if ([...segments].some((segment) => changedSegments.has(segment))) {
+      changed.add(flag.getKey());
+    }
+  }
+
+  const prerequisites = new Map(
+    next.map((flag) => [
+      flag.getKey(),
+      new Set(flag.getPrerequisites().map((prerequisite) => prerequisite.key)),
+    ])
+  );
+
+  return [...expand([...changed], prerequisites)];
+}
+
+/**
+ * Keys that were added, removed, or whose serialized definition differs
+ */
+function diffKeys(previous: [string, unknown][], next: [string, unknown][]): string[] {
+  const before = new Map(previous.map(([key, value]) => [key, JSON.stringify(value)]));
+  const after = new Map(next.map(([key, value]) => [key, JSON.stringify(value)]));
+  const changed: string[] = [];
+
+  for (const [key, json] of after) {
+    if (before.get(key) !== json) {
+      changed.push(key);
+    }
+  }
+
+  for (const key of before.keys()) {
+    if (!after.has(key)) {
+      changed.push(key);
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Add every key that (transitively) depends on a changed key
+ */
+function expand(changed: string[], dependencies: Map<string, Set<string>>): Set<string> {
+  const result = new Set(changed);
+  let grew = true;
+
+  while (grew) {
+    grew = false;
+    for (const [key, references] of dependencies) {
+      if (!result.has(key) && [...references].some((reference) => result.has(reference))) {
+        result.add(key);
+        grew = true;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Keys of the segments referenced by `in_segment`/`not_in_segment` clauses anywhere in a
+ * rule structure
+ */
+function collectSegmentKeys(value: unknown, keys: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectSegmentKeys(item, keys));
+  } else if (typeof value === 'object' && value !== null) {
+    const clause = value as RuleCondition;
+    if (clause.operator === 'in_segment' || clause.operator === 'not_in_segment') {
+      const targets = Array.isArray(clause.value) ? clause.value : [clause.value];
+      for (const target of targets) {
+        if (typeof target === 'string') {
+          keys.add(target);
+        }
+      }
+    }
+    Object.values(value).forEach((item) => collectSegmentKeys(item, keys));
+  }
+
+  return keys;
+}
@@ -1,32 +1,158 @@
-import type { Logger, FlagValue, FlagType, FlagData, FlagTarget } from './types';
-import type { Cache } from './cache';
+import type {
+  Logger,
+  FlagValue,
+  FlagSchema,
+  FlagKey,
+  FlagKeyOfType,
+  FlagType,
+  FlagData,
+  FlagTarget,
+  RolloutData,
+  Rule,
+  RulesResponse,
+  SegmentData,
+  EvaluationDetail,
+  EvaluationReason,
+  TargetWindow,
+  Clock,
+} from './types';
+import type { Cache, CacheEntry } from './cache';
 import { Flag } from './flag';
 import { Context } from './context';
 import { ApiClient } from './api-client';
 import { RuleEngine } from './rule-engine';
 import { DefaultsCollection } from './defaults-collection';
-import { EvaluationError } from './errors';
-import { isInBucket } from './rollout';
+import { ConfigurationError, EvaluationError } from './errors';
+import { isInBucket, selectVariation } from './rollout';
+import { Poller } from './poller';
+import type { RulesStream } from './streaming';
+import { FlagEventEmitter, diffFlagKeys } from './events';
+import type { FlagEventName, FlagEventListener } from './events';
+import { UsageReporter, type UsageReporterOptions } from './usage-reporter';
+import { getTargetWindow } from './schedule';
+import { SegmentSet } from './segments';
 
 const CACHE_KEY = 'zenmanage_rules';
+const REVALIDATE_RETRY_MS = 5000;
+const FALLBACK_POLLING_INTERVAL = 60;
+
+/**
+ * Optional behaviour for a FlagManager
+ */
+export interface FlagManagerOptions {
+  /** Background rules polling interval in seconds (polling is disabled when unset) */
+  pollingInterval?: number;
+  /**
+   * Receive rule updates over a streaming connection, polling only while the stream is unavailable
+   */
+  streaming?: boolean;
+  /** Rules to evaluate against until rules are available from the cache or API */
+  bootstrap?: RulesResponse;
+  /** Never contact the API: evaluate only bootstrap rules and defaults */
+  offline?: boolean;
+  /**
+   * Seconds that expired rules may still be served while a background refresh runs
+   * (stale-while-revalidate is disabled when unset). Past this limit evaluation falls back to defaults.
+   */
+  maxStale?: number;
+  /** Report flag usage to the API (default: true; always off when offline) */
+  usageReporting?: boolean;
+  /** Batching limits for usage reporting */
+  usage?: UsageReporterOptions;
+  /** Current time for target publishing windows (default: Date.now) */
+  clock?: Clock;
+  /** Context attribute rollouts bucket on when they do not name one (default: the identifier) */
+  bucketBy?: string;
+}
+
+/**
+ * Rules state shared between a FlagManager and the copies made by withContext()/withDefaults(),
+ * so a background refresh is visible to every copy
+ */
+interface RulesState {
+  flags: Flag[] | null;
+  /** Segment definitions of the loaded rule set */
+  segments: SegmentSet;
+  /** Version of the loaded rule set */
+  version: string | null;
+  /** Whether the `ready` event has been emitted */
+  ready: boolean;
+  /** When the loaded rules stop being fresh (epoch ms), or null if unknown */
+  expiresAt: number | null;
+  /** Whether the loaded rules are the bootstrap rules rather than cached or fetched ones */
+  bootstrapped: boolean;
+  poller: Poller | null;
+  stream: RulesStream | null;
+  revalidation: Promise<void> | null;
+  /** In-flight rule fetches and cache writes, awaited by close() */
+  pending: Set<Promise<unknown>>;
+  /** Earliest time another revalidation may start after a failed one (epoch ms) */
+  revalidateAfter: number;
+}
 
 /**
  * Main flag manager that orchestrates fetching, caching, and evaluating flags
+ *
+ * Pass a flag schema (e.g. `FlagManager<MyFlags>`) to restrict flag keys and value types.
  */
-export class FlagManager {
-  private flags: Flag[] | null = null;
+export class FlagManager<TFlags extends FlagSchema<TFlags> = FlagSchema> {
+  private readonly state: RulesState = {
+    flags: null,
+    segments: new SegmentSet(),
+    version: null,
+    ready: false,
+    expiresAt: null,
+    bootstrapped: false,
+    poller: null,
+    stream: null,
+    revalidation: null,
+    pending: new Set(),
+    revalidateAfter: 0,
+  };
+  private readonly events: FlagEventEmitter;
+  private readonly usage: UsageReporter | null;
   private context: Context;
-  private defaults: DefaultsCollection;
+  private defaults: DefaultsCollection<TFlags>;
 
   constructor(
     private readonly apiClient: ApiClient,
     private readonly cache: Cache,
     private readonly ruleEngine: RuleEngine,
     private readonly cacheTtl: number,
-    private readonly logger: Logger
+    private readonly logger: Logger,
+    private readonly options: FlagManagerOptions = {}
   ) {
+    this.events = new FlagEventEmitter(logger);
+    this.usage =
+      options.offline || options.usageReporting === false
+        ? null
+        : new UsageReporter((records) => apiClient.sendUsage(records), logger, options.usage);
     this.context = new Context('anonymous');
-    this.defaults = new DefaultsCollection();
+    this.defaults = new DefaultsCollection<TFlags>();
+  }
+
+  /**
+   * Subscribe to SDK events: `ready`, `change`, `change:<flag-key>` or `error`
+   */
+  on<E extends FlagEventName>(event: E, listener: FlagEventListener<E>): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  once<E extends FlagEventName>(event: E, listener: FlagEventListener<E>): this {
+    this.events.once(event, listener);
+    return this;
+  }
+
+  /**
+   * Remove a listener added with on() or once()
+   */
+  off<E extends FlagEventName>(event: E, listener: FlagEventListener<E>): this {
+    this.events.off(event, listener);
+    return this;
   }
 
   /**
@@ -35,22 +161,57 @@ export class FlagManager {
   async all(): Promise<Flag[]> {
     await this.ensureRulesLoaded();
 
-    const flags = this.flags || [];
-    return flags.map((flag) => this.evaluateFlag(flag));
+    const flags = this.state.flags || [];
+    const segments = new SegmentSet(this.state.segments);
+    return flags
+      .map((flag) => this.evaluateFlag(flag, segments))
+      .filter(
+        (detail) => detail.reason.window !== 'scheduled' && detail.reason.window !== 'expired'
+      )
+      .map((detail) => detail.flag);
   }
 
   /**
    * Get a single flag by key
    */
-  async single(key: string, defaultValue?: FlagValue): Promise<Flag> {
+  async single<K extends FlagKey<TFlags>>(key: K, defaultValue?: TFlags[K]): Promise<Flag> {
+    const detail = await this.singleDetailed(key, defaultValue);
+    return detail.flag;
+  }
+
+  /**
+   * Get a single flag by key together with the reason it evaluated to its value
+   */
+  async singleDetailed<K extends FlagKey<TFlags>>(
+    key: K,
+    defaultValue?: TFlags[K]
+  ): Promise<EvaluationDetail> {
+    return this.evaluateKey(key, defaultValue);
+  }
+
+  /**
+   * Look up and evaluate a flag by key, falling back to the inline default and then the
+   * DefaultsCollection. Keys and defaults are checked against the schema by the public callers.
+   */
+  private async evaluateKey(key: string, defaultValue?: FlagValue): Promise<EvaluationDetail> {
     await this.ensureRulesLoaded();
 
-    for (const flag of this.flags || []) {
+    // Publishing window of a flag whose target is not being served, if any
+    let inactiveWindow: TargetWindow | undefined;
+
+    for (const flag of this.state.flags || []) {
       if (flag.getKey() === key) {
+        const detail = this.evaluateFlag(flag, new SegmentSet(this.state.segments));
+
+        if (detail.reason.window === 'scheduled' || detail.reason.window === 'expired') {
+          inactiveWindow = detail.reason.window;
+          break;
+        }
+
         // Report usage for this flag
         await this.reportUsage(key, this.getUsageContext());
 
-        return this.evaluateFlag(flag);
+        return detail;
       }
     }
 
@@ -60,28 +221,75 @@ export class FlagManager {
       // Report usage even for default values
       await this.reportUsage(key, this.getUsageContext());
 
-      return flagFromDefault;
+      return {
+        flag: flagFromDefault,
+        reason: this.createReason('inline_default', inactiveWindow),
+      };
     }
 
     // Priority 2: Check DefaultsCollection
-    if (this.defaults.has(key)) {
-      const defaultVal = this.defaults.get(key);
+    const defaultsKey = key as FlagKey<TFlags>;
+    if (this.defaults.has(defaultsKey)) {
+      const defaultVal = this.defaults.get(defaultsKey);
       if (defaultVal !== undefined) {
         const flagFromDefault = this.createFlagFromDefault(key, defaultVal);
         // Report usage even for default values
         await this.reportUsage(key, this.getUsageContext());
 
-        return flagFromDefault;
+        return {
+          flag: flagFromDefault,
+          reason: this.createReason('defaults_collection', inactiveWindow),
+        };
       }
     }
 
-    throw new EvaluationError(`Flag not found: ${key}`);
+    if (inactiveWindow !== undefined) {
+      throw new EvaluationError(`Flag ${key} is ${inactiveWindow} and has no default value`);
+    }
+
+    throw new EvaluationError(this.missingFlagCause(key));
+  }
+
+  /**
+   * Why a key has no flag in the loaded rules
+   */
+  private missingFlagCause(key: string): string {
+    // Offline without bootstrap rules, or rules dropped past the max stale limit
+    if (this.state.flags?.length === 0 && this.state.version === null) {
+      return `No rules are loaded for flag ${key}`;
+    }
+
+    return `Flag not found: ${key}`;
+  }
+
+  /**
+   * Get a boolean flag value, falling back to `defaultValue` if the flag is missing,
+   * is not a boolean flag, or rules could not be loaded. Never throws.
+   */
+  async boolValue(key: FlagKeyOfType<TFlags, boolean>, defaultValue: boolean): Promise<boolean> {
+    return this.typedValue(key, 'boolean', defaultValue, (flag) => flag.asBool());
+  }
+
+  /**
+   * Get a string flag value, falling back to `defaultValue` if the flag is missing,
+   * is not a string flag, or rules could not be loaded. Never throws.
+   */
+  async stringValue(key: FlagKeyOfType<TFlags, string>, defaultValue: string): Promise<string> {
+    return this.typedValue(key, 'string', defaultValue, (flag) => flag.asString());
+  }
+
+  /**
+   * Get a number flag value, falling back to `defaultValue` if the flag is missing,
+   * is not a number flag, or rules could not be loaded. Never throws.
+   */
+  async numberValue(key: FlagKeyOfType<TFlags, number>, defaultValue: number): Promise<number> {
+    return this.typedValue(key, 'number', defaultValue, (flag) => flag.asNumber());
   }
 
   /**
    * Create a new FlagManager instance with a different context
    */
-  withContext(context: Context): FlagManager {
+  withContext(context: Context): FlagManager<TFlags> {
     const clone = Object.create(Object.getPrototypeOf(this));
     Object.assign(clone, this);
     clone.context = context;
@@ -91,7 +299,7 @@ export class FlagManager {
   /**
    * Create a new FlagManager instance with default values
    */
-  withDefaults(defaults: DefaultsCollection): FlagManager {
+  withDefaults(defaults: DefaultsCollection<TFlags>): FlagManager<TFlags> {
     const clone = Object.create(Object.getPrototypeOf(this));
     Object.assign(clone, this);
     clone.defaults = defaults;
@@ -99,10 +307,17 @@ export class FlagManager {
   }
 
   /**
-   * Report flag usage to the API
+   * Record flag usage; usage is aggregated and sent to the API in batches
    */
   async reportUsage(key: string, context?: Context): Promise<void> {
-    await this.apiClient.reportUsage(key, context);
+    this.usage?.record(key, context);
+  }
+
+  /**
+   * Send all buffered usage to the API now (call before the process exits)
+   */
+  async flushUsage(): Promise<void> {
+    await this.usage?.flush();
   }
 
   private getUsageContext(): Context | undefined {
@@ -126,25 +341,203 @@ export class FlagManager {
     await this.loadRulesFromApi();
   }
 
+  /**
+   * Start receiving rule updates in the background: over the streaming connection when
+   * streaming is enabled, otherwise by polling at the configured interval
+   */
+  start(): void {
+    if (this.options.offline) {
+      this.logger.warn('Offline mode is enabled, not starting background updates');
+      return;
+    }
+
+    if (this.options.streaming) {
+      this.startStreaming();
+      return;
+    }
+
+    const interval = this.options.pollingInterval;
+
+    if (!interval || interval <= 0) {
+      throw new ConfigurationError('Polling interval is not configured');
+    }
+
+    this.startPolling(interval);
+  }
+
+  /**
+   * Stop background polling and streaming (safe to call when neither was started)
+   */
+  stop(): void {
+    if (this.state.stream !== null) {
+      this.logger.debug('Stopping rules stream');
+      this.state.stream.stop();
+    }
+
+    this.stopPolling();
+  }
+
+  /**
+   * Stop background activity, send buffered usage and optionally persist the current rules
+   * to the cache. In-flight rule fetches (polls, revalidations, background bootstrap fetches)
+   * and streamed cache writes are awaited so none is left running, and no usage is recorded
+   * afterwards.
+   */
+  async close(options: { persistRules?: boolean } = {}): Promise<void> {
+    this.stop();
+
+    await Promise.all([this.usage?.close(), this.settlePending()]);
+
+    if (options.persistRules) {
+      await this.persistRules();
+    }
+  }
+
+  /**
+   * Wait until no rule fetch or cache write is in flight, including any started meanwhile
+   */
+  private async settlePending(): Promise<void> {
+    while (this.state.pending.size > 0) {
+      await Promise.allSettled([...this.state.pending]);
+    }
+  }
+
+  /**
+   * Register an in-flight operation so close() can wait for it
+   */
+  private track<T>(operation: Promise<T>): Promise<T> {
+    const pending = this.state.pending;
+    pending.add(operation);
+    // Handle both outcomes so tracking never causes an unhandled rejection
+    const done = (): void => {
+      pending.delete(operation);
+    };
+    operation.then(done, done);
+    return operation;
+  }
+
+  /**
+   * Write the rules currently in memory to the cache for their remaining lifetime
+   */
+  async persistRules(): Promise<void> {
+    const { flags, segments, version, expiresAt, bootstrapped } = this.state;
+
+    // Bootstrap rules are never cached, so the next start still fetches fresh rules
+    if (this.options.offline || bootstrapped || flags === null || version === null) {
+      return;
+    }
+
+    const ttl = expiresAt === null ? this.cacheTtl : Math.ceil((expiresAt - Date.now()) / 1000);
+    if (ttl <= 0) {
+      this.logger.debug('Rules have expired, not persisting them to cache');
+      return;
+    }
+
+    const response: RulesResponse = { version, flags: flags.map((flag) => flag.toJSON()) };
+    if (segments.size() > 0) {
+      response.segments = segments.toJSON();
+    }
+    await this.cache.set(CACHE_KEY, JSON.stringify(response), ttl);
+    this.logger.debug('Persisted rules to cache', { count: flags.length, ttl });
+  }
+
+  /**
+   * Check whether background polling is active
+   */
+  isPolling(): boolean {
+    return this.state.poller !== null && this.state.poller.isRunning();
+  }
+
+  /**
+   * Check whether the rules stream is active
+   */
+  isStreaming(): boolean {
+    return this.state.stream !== null && this.state.stream.isRunning();
+  }
+
+  private startPolling(interval: number): void {
+    if (this.state.poller === null) {
+      this.state.poller = new Poller(() => this.loadRulesFromApi(), interval * 1000, this.logger);
+    }
+
+    this.logger.debug('Starting background rules polling', { interval });
+    this.state.poller.start();
+  }
+
+  private stopPolling(): void {
+    if (this.state.poller !== null && this.state.poller.isRunning()) {
+      this.logger.debug('Stopping background rules polling');
+      this.state.poller.stop();
+    }
+  }
+
+  private startStreaming(): void {
+    if (this.state.stream === null) {
+      this.state.stream = this.apiClient.stream({
+        onRules: (response) => {
+          this.track(this.storeRules(response)).catch((error) => {
+            this.logger.warn('Failed to apply streamed rules', {
+              error: (error as Error).message,
+            });
+          });
+        },
+        onRulesChanged: () => {
+          this.loadRulesFromApi().catch(() => {
+            // Already logged and emitted by loadRulesFromApi()
+          });
+        },
+        onOpen: (reconnected) => {
+          this.stopPolling();
+
+          // Updates may have been missed while disconnected
+          if (reconnected) {
+            this.loadRulesFromApi().catch(() => {
+              // Already logged and emitted by loadRulesFromApi()
+            });
+          }
+        },
+        onFallback: () => {
+          this.startPolling(this.options.pollingInterval || FALLBACK_POLLING_INTERVAL);
+        },
+      });
+    }
+
+    this.logger.debug('Starting rules stream');
+    this.state.stream.start();
+  }
+
   /**
    * Ensure rules are loaded (from cache or API)
    */
   private async ensureRulesLoaded(): Promise<void> {
-    if (this.flags !== null) {
+    if (this.state.flags !== null) {
+      this.revalidateIfStale();
+      return;
+    }
+
+    // Offline mode only ever evaluates the bootstrap rules
+    if (this.options.offline) {
+      this.loadBootstrapRules();
       return;
     }
 
     // Try to load from cache first
-    const cached = await this.cache.get(CACHE_KEY);
+    const cached = await this.readCache();
 
     if (cached !== null) {
       this.logger.debug('Loading rules from cache');
 
       try {
-        const data = JSON.parse(cached);
+        const data = JSON.parse(cached.value);
 
         if (data && Array.isArray(data.flags)) {
-          this.flags = data.flags.map((flagData: unknown) => Flag.fromObject(flagData as FlagData));
+          this.replaceFlags(
+            data.flags.map((flagData: unknown) => Flag.fromObject(flagData as FlagData)),
+            typeof data.version === 'string' ? data.version : null,
+            Array.isArray(data.segments) ? (data.segments as SegmentData[]) : []
+          );
+          this.state.expiresAt = cached.expires;
+          this.revalidateIfStale();
           return;
         }
       } catch (error) {
@@ -154,88 +547,313 @@ export class FlagManager {
       }
     }
 
+    // Serve bootstrap rules right away and fetch fresh rules in the background
+    if (this.options.bootstrap) {
+      this.loadBootstrapRules();
+      this.loadRulesFromApi().catch(() => {
+        // Already logged and emitted by loadRulesFromApi(); bootstrap rules remain in use
+      });
+      return;
+    }
+
     // Load from API
     await this.loadRulesFromApi();
   }
 
   /**
-   * Load rules from the API and cache them
+   * Use the configured bootstrap rules (or no rules at all, so defaults apply)
    */
-  private async loadRulesFromApi(): Promise<void> {
-    this.logger.info('Fetching rules from API');
+  private loadBootstrapRules(): void {
+    const bootstrap = this.options.bootstrap;
 
-    try {
-      const response = await this.apiClient.getRules();
+    if (!bootstrap) {
+      this.logger.debug('Offline mode without bootstrap rules, using defaults only');
+      this.replaceFlags([], null);
+      return;
+    }
+
+    this.logger.debug('Loading bootstrap rules', { count: bootstrap.flags.length });
+    this.replaceFlags(
+      bootstrap.flags.map((flagData) => Flag.fromObject(flagData)),
+      bootstrap.version,
+      bootstrap.segments
+    );
+    this.state.bootstrapped = true;
+  }
+
+  /**
+   * Read cached rules. With stale-while-revalidate, expired entries are returned
+   * as long as they are within the max stale limit.
+   */
+  private async readCache(): Promise<CacheEntry | null> {
+    if (this.options.maxStale && typeof this.cache.getEntry === 'function') {
+      const entry = await this.cache.getEntry(CACHE_KEY);
 
-      this.flags = response.flags.map((flagData) => Flag.fromObject(flagData));
+      if (entry !== null && this.isPastMaxStale(entry.expires)) {
+        this.logger.debug('Cached rules exceeded max stale age, ignoring');
+        return null;
+      }
 
-      // Cache the response
-      await this.cache.set(CACHE_KEY, JSON.stringify(response), this.cacheTtl);
+      return entry;
+    }
 
-      this.logger.info('Rules loaded and cached', {
-        count: this.flags.length,
+    const value = await this.cache.get(CACHE_KEY);
+    return value !== null ? { value, expires: null } : null;
+  }
+
+  /**
+   * Start a background refresh when the loaded rules have expired (stale-while-revalidate only).
+   * Rules that are past the max stale limit are dropped so evaluation falls back to defaults.
+   */
+  private revalidateIfStale(): void {
+    const expiresAt = this.state.expiresAt;
+
+    if (!this.options.maxStale || expiresAt === null || Date.now() < expiresAt) {
+      return;
+    }
+
+    if (
+      this.isPastMaxStale(expiresAt) &&
+      this.state.flags !== null &&
+      this.state.flags.length > 0
+    ) {
+      this.logger.warn('Rules exceeded max stale age, falling back to defaults');
+      this.replaceFlags([], null);
+    }
+
+    if (this.state.revalidation !== null || Date.now() < this.state.revalidateAfter) {
+      return;
+    }
+
+    this.logger.debug('Revalidating stale rules in the background');
+
+    this.state.revalidation = this.loadRulesFromApi()
+      .catch(() => {
+        this.state.revalidateAfter = Date.now() + REVALIDATE_RETRY_MS;
+      })
+      .finally(() => {
+        this.state.revalidation = null;
       });
+  }
+
+  private isPastMaxStale(expiresAt: number | null): boolean {
+    return expiresAt !== null && Date.now() >= expiresAt + (this.options.maxStale ?? 0) * 1000;
+  }
+
+  /**
+   * Load rules from the API and cache them
+   */
+  private loadRulesFromApi(): Promise<void> {
+    return this.track(this.fetchRules());
+  }
+
+  private async fetchRules(): Promise<void> {
+    if (this.options.offline) {
+      this.logger.debug('Offline mode is enabled, not fetching rules from API');
+      return;
+    }
+
+    this.logger.info('Fetching rules from API');
+
+    try {
+      const response = await this.apiClient.getRules();
+      await this.storeRules(response);
     } catch (error) {
       this.logger.error('Failed to load rules from API', {
         error: (error as Error).message,
       });
 
-      // If we fail to load rules, use empty array
-      this.flags = [];
+      // Keep the last known rules; only fall back to an empty set if nothing was loaded yet
+      if (this.state.flags === null) {
+        this.state.flags = [];
+      }
+
+      this.events.emit('error', error as Error);
       throw error;
     }
   }
 
+  /**
+   * Apply a freshly fetched rule set and cache it
+   */
+  private async storeRules(response: RulesResponse): Promise<void> {
+    // Build the new flag set before swapping it in, so readers never see a partial set
+    const flags = response.flags.map((flagData) => Flag.fromObject(flagData));
+    this.replaceFlags(flags, response.version, response.segments);
+    this.state.expiresAt = Date.now() + this.cacheTtl * 1000;
+    this.state.bootstrapped = false;
+
+    // Cache the response
+    await this.cache.set(CACHE_KEY, JSON.stringify(response), this.cacheTtl);
+
+    this.logger.info('Rules loaded and cached', {
+      count: flags.length,
+    });
+  }
+
+  /**
+   * Swap in a new flag set and notify listeners about what changed
+   */
+  private replaceFlags(flags: Flag[], version: string | null, segments: SegmentData[] = []): void {
+    const previous = this.state.flags;
+    const previousSegments = this.state.segments.toJSON();
+    this.state.flags = flags;
+    this.state.segments = new SegmentSet(segments);
+    this.state.version = version;
+
+    if (!this.state.ready) {
+      this.state.ready = true;
+      this.events.emit('ready');
+      return;
+    }
+
+    const changed = diffFlagKeys(previous || [], flags, previousSegments, segments);
+    if (changed.length === 0) {
+      return;
+    }
+
+    this.logger.debug('Flag definitions changed', { keys: changed });
+    this.events.emit('change', changed);
+
+    for (const key of changed) {
+      this.events.emit(`change:${key}`, key);
+    }
+  }
+
+  /**
+   * Evaluate a flag like single(key) and read its value, logging and returning the default
+   * on any failure
+   */
+  private async typedValue<T extends FlagValue>(
+    key: string,
+    type: FlagType,
+    defaultValue: T,
+    read: (flag: Flag) => T
+  ): Promise<T> {
+    try {
+      // Same lookup as single(key), with `defaultValue` as the last resort
+      const fallback = this.defaults.get(key as FlagKey<TFlags>) ?? defaultValue;
+      const { flag, reason } = await this.evaluateKey(key, fallback);
+
+      if (reason.kind === 'inline_default' && reason.window !== undefined) {
+        this.logger.debug(`Flag ${key} is ${reason.window}, using default value`, { key });
+      } else if (reason.kind === 'inline_default') {
+        this.logger.warn(`${this.missingFlagCause(key)}, using default value`, { key });
+      }
+
+      if (flag.getType() !== type) {
+        this.logger.warn(`Flag ${key} is of type ${flag.getType()}, expected ${type}`, { key });
+        return defaultValue;
+      }
+
+      return read(flag);
+    } catch (error) {
+      this.logger.error(`Failed to evaluate flag ${key}, using default value`, {
+        key,
+        error: (error as Error).message,
+      });
+      return defaultValue;
+    }
+  }
+
   /**
    * Evaluate a flag against the current context.
    *
    * When a rollout is active, the SDK determines which target/rules pair to use
-   * by bucketing the context identifier against the rollout percentage.
+   * by bucketing the context identifier against the rollout percentage, or against
+   * the variation weights for a multivariate rollout.
+   *
+   * Targets are only served within their publishing window. A rollout target outside its
+   * window falls back to the flag's target; when that is outside its window too, the returned
+   * reason carries the window and callers fall back to default values.
+   *
+   * Prerequisite flags are evaluated first, recursively and against the same context. When
+   * one fails, the flag's target is served without evaluating its rules or rollout.
+   *
+   * @param segments - Segments of the rule set, caching membership for this evaluation only
+   * @param evaluating - Keys of the flags whose prerequisites are being evaluated
    */
-  private evaluateFlag(flag: Flag): Flag {
+  private evaluateFlag(
+    flag: Flag,
+    segments: SegmentSet,
+    evaluating: Set<string> = new Set()
+  ): EvaluationDetail {
     const rollout = flag.getRollout();
-    let target: FlagTarget;
-    let rules: import('./types').Rule[];
+    const reason = this.createReason('target');
+    const now = (this.options.clock ?? Date.now)();
+    let target: FlagTarget = flag.getTarget();
+    let rules: Rule[] = flag.getRules();
+
+    const failedPrerequisite = this.findFailedPrerequisite(flag, segments, evaluating);
+    if (failedPrerequisite !== null) {
+      reason.kind = 'prerequisite_failed';
+      reason.prerequisiteKey = failedPrerequisite;
+
+      const window = getTargetWindow(target, now);
+      if (window !== undefined) {
+        reason.window = window;
+      }
+
+      return {
+        flag: new Flag(flag.getVersion(), flag.getType(), flag.getKey(), flag.getName(), target),
+        reason,
+      };
+    }
 
     if (rollout) {
       // Rollout is active — determine which target to use via bucketing
-      const contextIdentifier = this.context.getIdentifier() ?? null;
-      const inBucket = isInBucket(rollout.salt, contextIdentifier, rollout.percentage);
+      const contextIdentifier = this.getBucketingKey(rollout);
+      let selected: { target: FlagTarget; rules?: Rule[] } | null = null;
+
+      try {
+        if (rollout.variations) {
+          // Multivariate rollout — assign one of the weighted variations
+          const variation = selectVariation(rollout.salt, contextIdentifier, rollout.variations);
+          if (variation) {
+            selected = variation;
+            reason.variation = variation.key;
+          }
+        } else if (isInBucket(rollout.salt, contextIdentifier, rollout.percentage)) {
+          selected = rollout;
+        }
+      } catch (error) {
+        // Invalid percentage or weights: one bad flag must not fail evaluation of the others
+        this.logger.warn('Invalid rollout, serving the fallback target', {
+          key: flag.getKey(),
+          error: (error as Error).message,
+        });
+      }
 
-      if (inBucket) {
+      const rolloutWindow = selected ? getTargetWindow(selected.target, now) : undefined;
+      if (selected && (rolloutWindow === undefined || rolloutWindow === 'active')) {
         // Context is in the rollout bucket — use rollout target & rules
-        target = rollout.target;
-        rules = rollout.rules || [];
+        target = selected.target;
+        rules = selected.rules || [];
+        reason.inRollout = true;
       } else {
-        // Context is outside the rollout bucket — use fallback target & rules
-        target = flag.getTarget();
-        rules = flag.getRules();
+        // Otherwise keep the fallback target & rules
+        reason.inRollout = false;
+        delete reason.variation;
       }
-    } else {
-      // No rollout — evaluate normally
-      target = flag.getTarget();
-      rules = flag.getRules();
     }
 
-    if (rules.length === 0) {
-      // No rules, return a flag with the selected target
-      if (target === flag.getTarget() && !rollout) {
-        return flag;
-      }
-      return new Flag(
-        flag.getVersion(),
-        flag.getType(),
-        flag.getKey(),
-        flag.getName(),
-        target,
-        rules
-      );
+    const window = getTargetWindow(target, now);
+    if (window !== undefined) {
+      reason.window = window;
     }
 
     // Evaluate rules against context
-    const matchedRule = this.ruleEngine.evaluate(rules, this.context);
+    const ruleIndex =
+      rules.length > 0 ? this.ruleEngine.findMatchIndex(rules, this.context, segments) : -1;
+
+    if (ruleIndex !== -1) {
+      const matchedRule = rules[ruleIndex];
+      reason.kind = 'rule_match';
+      reason.ruleIndex = ruleIndex;
+      if (matchedRule.description !== undefined) {
+        reason.ruleDescription = matchedRule.description;
+      }
 
-    if (matchedRule) {
       // Create a new flag with the matched rule's value as target
       const newTarget: FlagTarget = {
         version: target.version,
@@ -245,28 +863,124 @@ export class FlagManager {
         value: matchedRule.value,
       };
 
-      return new Flag(
+      return {
+        flag: new Flag(
+          flag.getVersion(),
+          flag.getType(),
+          flag.getKey(),
+          flag.getName(),
+          newTarget,
+          rules,
+          undefined,
+          reason.variation
+        ),
+        reason,
+      };
+    }
+
+    // No rule matched, return flag with selected target
+    if (target === flag.getTarget() && !rollout) {
+      return { flag, reason };
+    }
+
+    return {
+      flag: new Flag(
         flag.getVersion(),
         flag.getType(),
         flag.getKey(),
         flag.getName(),
-        newTarget,
-        rules
-      );
+        target,
+        rules,
+        undefined,
+        reason.variation
+      ),
+      reason,
+    };
+  }
+
+  /**
+   * Evaluate a flag's prerequisites and return the key of the first one that is missing,
+   * not being served, does not have its required value or depends on the flag itself
+   */
+  private findFailedPrerequisite(
+    flag: Flag,
+    segments: SegmentSet,
+    evaluating: Set<string>
+  ): string | null {
+    const prerequisites = flag.getPrerequisites();
+    if (prerequisites.length === 0) {
+      return null;
     }
 
-    // No rule matched, return flag with selected target
-    if (target === flag.getTarget() && !rollout) {
-      return flag;
-    }
-    return new Flag(
-      flag.getVersion(),
-      flag.getType(),
-      flag.getKey(),
-      flag.getName(),
-      target,
-      rules
-    );
+    evaluating.add(flag.getKey());
+
+    try {
+      for (const prerequisite of prerequisites) {
+        if (evaluating.has(prerequisite.key)) {
+          this.logger.warn('Prerequisite cycle detected, treating the prerequisite as failed', {
+            key: flag.getKey(),
+            prerequisite: prerequisite.key,
+          });
+          return prerequisite.key;
+        }
+
+        const prerequisiteFlag = this.state.flags?.find((f) => f.getKey() === prerequisite.key);
+        if (!prerequisiteFlag) {
+          return prerequisite.key;
+        }
+
+        const { flag: evaluated, reason } = this.evaluateFlag(
+          prerequisiteFlag,
+          segments,
+          evaluating
+        );
+        if (
+          reason.window === 'scheduled' ||
+          reason.window === 'expired' ||
+          evaluated.getValue() !== prerequisite.value
+        ) {
+          return prerequisite.key;
+        }
+      }
+
+      return null;
+    } finally {
+      evaluating.delete(flag.getKey());
+    }
+  }
+
+  /**
+   * Value a rollout buckets the context on: the first value of the rollout's (or the SDK's)
+   * bucketing attribute, falling back to the context identifier. For multi-contexts, this is
+   * read from the context of the rollout's kind, or from the first context.
+   */
+  private getBucketingKey(rollout: RolloutData): string | null {
+    const context = rollout.context_kind
+      ? this.context.getContext(rollout.context_kind)
+      : this.context.getContexts()[0];
+
+    if (!context) {
+      return null;
+    }
+
+    const attribute = rollout.bucket_by ?? this.options.bucketBy;
+    const value = attribute ? context.getAttribute(attribute)?.getValues()[0] : undefined;
+
+    return value ?? context.getIdentifier() ?? null;
+  }
+
+  private createReason(kind: EvaluationReason['kind'], window?: TargetWindow): EvaluationReason {
+    const reason: EvaluationReason = { kind };
+
+    if (this.state.version !== null) {
+      reason.rulesVersion = this.state.version;
+    }
+
+    if (window !== undefined) {
+      reason.window = window;
+    }
+
+    return reason;
   }
 
   /**
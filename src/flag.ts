@@ -1,4 +1,12 @@
-import type { FlagData, FlagType, FlagValue, Rule, FlagTarget, RolloutData } from './types';
+import type {
+  FlagData,
+  FlagPrerequisite,
+  FlagType,
+  FlagValue,
+  Rule,
+  FlagTarget,
+  RolloutData,
+} from './types';
 
 /**
  * Represents a feature flag with its metadata, rules, and target value
@@ -11,7 +19,9 @@ export class Flag {
     private readonly name: string,
     private readonly target: FlagTarget,
     private readonly rules: Rule[] = [],
-    private readonly rollout?: RolloutData
+    private readonly rollout?: RolloutData,
+    private readonly variation?: string,
+    private readonly prerequisites: FlagPrerequisite[] = []
   ) {}
 
   getVersion(): string {
@@ -42,6 +52,18 @@ export class Flag {
     return this.rollout;
   }
 
+  getPrerequisites(): FlagPrerequisite[] {
+    return this.prerequisites;
+  }
+
+  /**
+   * Key of the rollout variation this value was served from, for evaluated flags
+   * in a multivariate rollout
+   */
+  getVariation(): string | undefined {
+    return this.variation;
+  }
+
   /**
    * Check if this flag is of type boolean and is enabled (true)
    */
@@ -140,7 +162,9 @@ export class Flag {
       data.name,
       data.target,
       data.rules || [],
-      data.rollout
+      data.rollout,
+      undefined,
+      data.prerequisites || []
     );
   }
 
@@ -158,6 +182,10 @@ export class Flag {
       data.rollout = this.rollout;
     }
 
+    if (this.prerequisites.length > 0) {
+      data.prerequisites = this.prerequisites;
+    }
+
     return data;
   }
 }
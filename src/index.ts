@@ -5,15 +5,22 @@
 
 export { Zenmanage } from './zenmanage';
 export { ConfigBuilder } from './config';
-export { Context, Attribute, Value } from './context';
+export { Context, MultiContext, Attribute, Value } from './context';
 export { Flag } from './flag';
 export { DefaultsCollection } from './defaults-collection';
 export { FlagManager } from './flag-manager';
-export { isInBucket, crc32b } from './rollout';
+export type { FlagManagerOptions } from './flag-manager';
+export { isInBucket, crc32b, getBucket, selectVariation } from './rollout';
+export { getAnonymousIdentifier, ANONYMOUS_ID_STORAGE_KEY } from './anonymous-id';
+export type { IdentifierStorage } from './anonymous-id';
+export type { FlagEventName, FlagEventListener } from './events';
+export type { UsageRecord, UsageReporterOptions } from './usage-reporter';
+export { redactContext } from './redaction';
+export type { RedactionOptions } from './redaction';
 
 // Cache exports
 export { InMemoryCache, NullCache } from './cache';
-export type { Cache } from './cache';
+export type { Cache, CacheEntry } from './cache';
 
 // Error exports
 export {
@@ -27,15 +34,34 @@ export {
 // Type exports
 export type {
   Config,
+  Clock,
+  FlushOptions,
+  CloseOptions,
   Logger,
   FlagType,
   FlagValue,
+  FlagSchema,
+  FlagKey,
+  FlagKeyOfType,
   ContextData,
   ContextAttribute,
   ContextValue,
+  AttributeValue,
+  AttributeValueType,
+  PrivateAttributeMode,
   FlagData,
+  FlagPrerequisite,
   RolloutData,
+  RolloutVariation,
   Rule,
   RuleCondition,
+  RuleConditionGroup,
+  RuleExpression,
   RulesResponse,
+  SegmentData,
+  SegmentRule,
+  EvaluationReasonKind,
+  EvaluationReason,
+  EvaluationDetail,
+  TargetWindow,
 } from './types';
@@ -0,0 +1,41 @@
+import { ConfigBuilder } from './config';
+import { readRulesFile } from './rules-file';
+
+/**
+ * ConfigBuilder with Node.js-only options, exported as `ConfigBuilder` from '@zenmanage/sdk/node'
+ */
+export class NodeConfigBuilder extends ConfigBuilder {
+  /**
+   * Create a new NodeConfigBuilder instance
+   */
+  static create(): NodeConfigBuilder {
+    return new NodeConfigBuilder();
+  }
+
+  /**
+   * Create a NodeConfigBuilder with values from environment variables, including
+   * ZENMANAGE_BOOTSTRAP_FILE
+   */
+  static fromEnvironment(): NodeConfigBuilder {
+    return new NodeConfigBuilder().loadEnvironment();
+  }
+
+  /**
+   * Start from the rules in a JSON file, as with withBootstrap(). The file is read right
+   * away; throws InvalidRulesError when it is missing or not a valid rules response.
+   */
+  withBootstrapFile(filePath: string): this {
+    return this.withBootstrap(readRulesFile(filePath));
+  }
+
+  protected loadEnvironment(): this {
+    super.loadEnvironment();
+
+    const bootstrapFile = process.env.ZENMANAGE_BOOTSTRAP_FILE;
+    if (bootstrapFile) {
+      this.withBootstrapFile(bootstrapFile);
+    }
+
+    return this;
+  }
+}
@@ -9,5 +9,9 @@
 // Re-export everything from the main (browser-safe) entry
 export * from './index';
 
-// Node.js-specific exports
+// Node.js-specific exports (this ConfigBuilder adds withBootstrapFile())
+export { NodeConfigBuilder as ConfigBuilder, NodeConfigBuilder } from './node-config';
 export { FileSystemCache } from './cache/filesystem-cache';
+export { readRulesFile } from './rules-file';
+export { generateFlagDefinitions } from './codegen';
+export type { CodegenOptions } from './codegen';
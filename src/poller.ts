@@ -0,0 +1,104 @@
+import type { Logger } from './types';
+
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+/**
+ * Runs an async task on a fixed interval, backing off exponentially on failures
+ *
+ * Ticks are chained with setTimeout so a slow task never overlaps the next one.
+ * Timers are unref'd in Node.js so an active poller does not keep the process alive.
+ */
+export class Poller {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private failures = 0;
+  private running = false;
+  // Incremented by start() and stop(), so a tick still in flight from an earlier run
+  // does not schedule a second timer chain
+  private generation = 0;
+
+  constructor(
+    private readonly task: () => Promise<void>,
+    private readonly intervalMs: number,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Start polling; the first run happens after one interval
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.generation++;
+    this.failures = 0;
+    this.schedule(this.intervalMs);
+  }
+
+  /**
+   * Stop polling and clear any pending timer
+   */
+  stop(): void {
+    this.running = false;
+    this.generation++;
+
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Delay before the next run: the interval, doubled for each consecutive failure
+   */
+  getNextDelay(): number {
+    if (this.failures === 0) {
+      return this.intervalMs;
+    }
+
+    const backoff = this.intervalMs * Math.pow(2, this.failures);
+    return Math.min(backoff, Math.max(this.intervalMs, MAX_BACKOFF_MS));
+  }
+
+  private schedule(delay: number): void {
+    const generation = this.generation;
+    this.timer = setTimeout(() => {
+      void this.tick(generation);
+    }, delay);
+
+    const timer = this.timer as { unref?: () => void };
+    if (typeof timer.unref === 'function') {
+      timer.unref();
+    }
+  }
+
+  private async tick(generation: number): Promise<void> {
+    this.timer = null;
+    const current = (): boolean => generation === this.generation;
+
+    try {
+      await this.task();
+      if (current()) {
+        this.failures = 0;
+      }
+    } catch (error) {
+      if (current()) {
+        this.failures++;
+      }
+      this.logger.warn('Background poll failed', {
+        error: (error as Error).message,
+        failures: this.failures,
+      });
+    }
+
+    // Stopped or restarted while the task ran: a restart has scheduled its own timer
+    if (current()) {
+      this.schedule(this.getNextDelay());
+    }
+  }
+}
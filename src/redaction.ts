@@ -0,0 +1,65 @@
+import type { ContextAttribute, ContextData, PrivateAttributeMode } from './types';
+import { sha256 } from './sha256';
+
+/**
+ * Which context attributes are private, and how they are redacted
+ */
+export interface RedactionOptions {
+  /** Attribute keys that are private in every context */
+  privateAttributes?: string[];
+  /** Treat every attribute as private */
+  allAttributesPrivate?: boolean;
+  /** Strip private attributes or hash their values (default: 'strip') */
+  mode?: PrivateAttributeMode;
+}
+
+/**
+ * Redact the private attributes of serialized context data before it leaves the process
+ *
+ * An attribute is private when it is marked private itself, its key is listed in
+ * `privateAttributes`, or `allAttributesPrivate` is set. The type, name and identifier are
+ * kept; the keys of redacted attributes are listed in `redacted`. Hashed values can still be
+ * counted and compared, but values with few possibilities (e.g. a country) can be guessed.
+ */
+export function redactContext(data: ContextData, options: RedactionOptions = {}): ContextData {
+  const { attributes, contexts, ...rest } = data;
+  const result: ContextData = rest;
+
+  if (contexts) {
+    result.contexts = contexts.map((context) => redactContext(context, options));
+  }
+
+  if (!attributes) {
+    return result;
+  }
+
+  const privateKeys = new Set(options.privateAttributes ?? []);
+  const kept: ContextAttribute[] = [];
+  const redacted: string[] = [];
+
+  for (const { private: isPrivate, ...attribute } of attributes) {
+    if (!isPrivate && !options.allAttributesPrivate && !privateKeys.has(attribute.key)) {
+      kept.push(attribute);
+      continue;
+    }
+
+    redacted.push(attribute.key);
+
+    if (options.mode === 'hash') {
+      kept.push({
+        key: attribute.key,
+        values: attribute.values.map((value) => ({ value: sha256(value.value) })),
+      });
+    }
+  }
+
+  if (kept.length > 0) {
+    result.attributes = kept;
+  }
+
+  if (redacted.length > 0) {
+    result.redacted = redacted;
+  }
+
+  return result;
+}
@@ -60,12 +60,63 @@ export function isInBucket(
     throw new Error('Percentage must be between 0 and 100');
   }
 
+  const bucket = getBucket(salt, contextIdentifier);
+
+  return bucket !== null && bucket < percentage;
+}
+
+/**
+ * Compute the bucket (0–99) a context identifier is assigned to for a salt.
+ *
+ * @returns The bucket, or null when there is no identifier to bucket on
+ */
+export function getBucket(
+  salt: string,
+  contextIdentifier: string | null | undefined
+): number | null {
   if (contextIdentifier == null) {
-    return false;
+    return null;
   }
 
-  const hash = crc32b(salt + ':' + contextIdentifier);
-  const bucket = hash % 100;
+  return crc32b(salt + ':' + contextIdentifier) % 100;
+}
+
+/**
+ * Assign a context identifier to one of several weighted variations.
+ *
+ * Variations take consecutive bucket ranges in order, each as wide as its weight, so
+ * with weights 33/33/34 buckets 0–32 get the first variation, 33–65 the second and
+ * 66–99 the third. Contexts in buckets beyond the total weight get no variation.
+ *
+ * @param salt - Random string unique to the rollout, used as the hash seed
+ * @param contextIdentifier - The context identifier (e.g., user ID). Null means no variation.
+ * @param variations - Variations with weights (percentages) adding up to at most 100
+ * @returns The assigned variation, or null
+ */
+export function selectVariation<T extends { weight: number }>(
+  salt: string,
+  contextIdentifier: string | null | undefined,
+  variations: T[]
+): T | null {
+  if (variations.some((variation) => variation.weight < 0)) {
+    throw new Error('Variation weights must not be negative');
+  }
+  if (variations.reduce((total, variation) => total + variation.weight, 0) > 100) {
+    throw new Error('Variation weights must not add up to more than 100');
+  }
+
+  const bucket = getBucket(salt, contextIdentifier);
+  if (bucket === null) {
+    return null;
+  }
+
+  let upper = 0;
+  for (const variation of variations) {
+    upper += variation.weight;
+    if (bucket < upper) {
+      return variation;
+    }
+  }
 
-  return bucket < percentage;
+  return null;
 }
@@ -1,68 +1,265 @@
 import type { Context } from './context';
-import type { Rule, RuleCondition, RuleContextTarget } from './types';
+import type {
+  AttributeValue,
+  Clock,
+  Logger,
+  Rule,
+  RuleCondition,
+  RuleConditionGroup,
+  RuleContextTarget,
+  RuleExpression,
+  SegmentData,
+  SegmentRule,
+} from './types';
+import type { SegmentSet } from './segments';
+import { compareSemver, parseSemver, satisfiesSemverRange } from './semver';
+import { compilePattern } from './safe-regex';
+import { parseDate, parseDuration } from './dates';
+
+const DEFAULT_REGEX_MAX_INPUT_LENGTH = 1024;
+const DEFAULT_REGEX_TIME_LIMIT_MS = 50;
+
+/** Operators that compare strings, and so honour Unicode normalization and `ignore_case` */
+const STRING_OPERATORS = new Set([
+  'equals',
+  'not_equals',
+  'contains',
+  'not_contains',
+  'in',
+  'not_in',
+  'contains_any',
+  'contains_all',
+  'starts_with',
+  'ends_with',
+]);
+
+/** Operators that match when their positive counterpart does not */
+const NEGATED_OPERATORS = new Set([
+  'not_equals',
+  'not_contains',
+  'not_in',
+  'not_matches',
+  'not_semver_range',
+]);
+
+/**
+ * Optional behaviour for a RuleEngine
+ */
+export interface RuleEngineOptions {
+  /** Receives warnings about rules that cannot be evaluated */
+  logger?: Logger;
+  /** Current time for relative date operators such as `older_than` (default: Date.now) */
+  clock?: Clock;
+  /** Attribute values longer than this never match regex operators (default: 1024) */
+  regexMaxInputLength?: number;
+  /**
+   * Milliseconds after which a finished regex match counts as slow; slow patterns are disabled
+   * for later evaluations (default: 50). A running match cannot be interrupted, so this is not
+   * a time limit: unsafe patterns are rejected when they are compiled instead.
+   */
+  regexTimeLimit?: number;
+}
 
 /**
  * Rule engine for evaluating flag rules against context
  */
 export class RuleEngine {
+  /** Compiled `matches`/`not_matches` patterns per clause; null when a pattern is unusable */
+  private readonly patterns: WeakMap<RuleCondition, RegExp[] | null> = new WeakMap();
+
+  constructor(private readonly options: RuleEngineOptions = {}) {}
+
   /**
    * Evaluate rules against a context
    * Returns the matching rule or null if no rules match
    */
-  evaluate(rules: Rule[], context: Context): Rule | null {
+  evaluate(rules: Rule[], context: Context, segments?: SegmentSet): Rule | null {
+    const index = this.findMatchIndex(rules, context, segments);
+    return index !== -1 ? rules[index] : null;
+  }
+
+  /**
+   * Find the position of the first rule that matches the context
+   * Returns -1 if no rules match
+   */
+  findMatchIndex(rules: Rule[], context: Context, segments?: SegmentSet): number {
     // Rules are evaluated in order - first match wins
-    for (const rule of rules) {
-      if (this.evaluateRule(rule, context)) {
-        return rule;
+    for (let i = 0; i < rules.length; i++) {
+      if (this.evaluateRule(rules[i], context, segments)) {
+        return i;
       }
     }
 
-    return null;
+    return -1;
+  }
+
+  /**
+   * Check whether a context is in a segment, using the cached result when there is one.
+   * Unknown segments and segments that reference themselves are treated as no match.
+   */
+  isInSegment(key: string, context: Context, segments: SegmentSet): boolean {
+    const cached = segments.getCached(key, context);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const segment = segments.get(key);
+    if (!segment) {
+      this.options.logger?.warn('Unknown segment in rule, treating it as no match', {
+        segment: key,
+      });
+      return false;
+    }
+
+    if (!segments.enter(key)) {
+      this.options.logger?.warn('Segment references itself, treating it as no match', {
+        segment: key,
+      });
+      return false;
+    }
+
+    try {
+      const result = this.evaluateSegment(segment, context, segments);
+      segments.setCached(key, context, result);
+      return result;
+    } finally {
+      segments.leave(key);
+    }
   }
 
   /**
    * Evaluate a single rule against context
-   * All clauses must match for the rule to match
+   * The clauses (or criteria) and any condition groups must all match
    */
-  private evaluateRule(rule: Rule, context: Context): boolean {
+  private evaluateRule(rule: SegmentRule, context: Context, segments?: SegmentSet): boolean {
     // Handle both 'clauses' (array) and 'criteria' (single condition)
     if (rule.clauses && rule.clauses.length > 0) {
       // All clauses must match (AND logic)
-      return rule.clauses.every((clause) => this.evaluateClause(clause, context));
-    }
-
-    if (rule.criteria) {
+      if (!rule.clauses.every((clause) => this.evaluateClause(clause, context, segments))) {
+        return false;
+      }
+    } else if (rule.criteria) {
       // Single criteria condition
-      return this.evaluateClause(rule.criteria, context);
+      if (!this.evaluateClause(rule.criteria, context, segments)) {
+        return false;
+      }
     }
 
     // No conditions means rule matches
+    return this.evaluateGroup(rule, context, segments);
+  }
+
+  /**
+   * Exclusions win over inclusions, which win over the segment rules
+   */
+  private evaluateSegment(segment: SegmentData, context: Context, segments: SegmentSet): boolean {
+    if (this.isTargeted(segment.excluded, context)) {
+      return false;
+    }
+
+    if (this.isTargeted(segment.included, context)) {
+      return true;
+    }
+
+    return (segment.rules ?? []).some((rule) => this.evaluateRule(rule, context, segments));
+  }
+
+  private isTargeted(targets: RuleContextTarget[] | undefined, context: Context): boolean {
+    if (!targets) {
+      return false;
+    }
+
+    return context.getContexts().some((entry) => {
+      const identifier = entry.getIdentifier();
+      return targets.some(
+        (target) =>
+          identifier !== undefined &&
+          target.identifier === identifier &&
+          (target.type == null || target.type === entry.getType())
+      );
+    });
+  }
+
+  /**
+   * Evaluate a nested condition: either a clause or an all/any/not group
+   */
+  private evaluateExpression(
+    expression: RuleExpression,
+    context: Context,
+    segments?: SegmentSet
+  ): boolean {
+    if (typeof expression !== 'object' || expression === null) {
+      return false;
+    }
+
+    if ('attribute' in expression) {
+      return this.evaluateClause(expression, context, segments);
+    }
+
+    const group = expression as RuleConditionGroup;
+    if (group.all === undefined && group.any === undefined && group.not === undefined) {
+      // Unrecognised condition shape
+      return false;
+    }
+
+    return this.evaluateGroup(group, context, segments);
+  }
+
+  private evaluateGroup(
+    group: RuleConditionGroup,
+    context: Context,
+    segments?: SegmentSet
+  ): boolean {
+    const matches = (member: RuleExpression) => this.evaluateExpression(member, context, segments);
+
+    if (group.all && !group.all.every(matches)) {
+      return false;
+    }
+
+    if (group.any && !group.any.some(matches)) {
+      return false;
+    }
+
+    if (group.not !== undefined && matches(group.not)) {
+      return false;
+    }
+
     return true;
   }
 
   /**
    * Evaluate a single clause against context
    */
-  private evaluateClause(clause: RuleCondition, context: Context): boolean {
+  private evaluateClause(clause: RuleCondition, context: Context, segments?: SegmentSet): boolean {
+    if (clause.operator === 'in_segment' || clause.operator === 'not_in_segment') {
+      return this.evaluateSegmentClause(clause, context, segments);
+    }
+
     if (clause.attribute === 'context' || clause.attribute === 'segment') {
       return this.evaluateContextClause(clause, context);
     }
 
-    const attribute = context.getAttribute(clause.attribute);
+    const scope = clause.context_kind ? context.getContext(clause.context_kind) : context;
+    const attribute = scope?.getAttribute(clause.attribute);
 
     if (!attribute) {
       return false;
     }
 
-    const attributeValues = attribute.getValues();
-    const attributeClauseValue = this.toAttributeClauseValue(clause.value);
+    // Numbers, booleans and dates are compared natively; other operators use their strings
+    const typedValues = this.toTypedValues(clause, attribute.getTypedValues());
+    const attributeValues = this.normalizeValues(clause, attribute.getValues());
+    const attributeClauseValue = this.normalizeClauseValue(
+      clause,
+      this.toAttributeClauseValue(clause.value)
+    );
 
     switch (clause.operator) {
       case 'equals':
-        return this.evaluateEquals(attributeValues, attributeClauseValue);
+        return this.evaluateTypedEquals(typedValues, attributeClauseValue);
 
       case 'not_equals':
-        return !this.evaluateEquals(attributeValues, attributeClauseValue);
+        return !this.evaluateTypedEquals(typedValues, attributeClauseValue);
 
       case 'contains':
         return this.evaluateContains(attributeValues, attributeClauseValue);
@@ -71,10 +268,16 @@ export class RuleEngine {
         return !this.evaluateContains(attributeValues, attributeClauseValue);
 
       case 'in':
-        return this.evaluateIn(attributeValues, attributeClauseValue);
+        return this.evaluateTypedEquals(typedValues, attributeClauseValue);
 
       case 'not_in':
-        return !this.evaluateIn(attributeValues, attributeClauseValue);
+        return !this.evaluateTypedEquals(typedValues, attributeClauseValue);
+
+      case 'contains_any':
+        return this.evaluateTypedEquals(typedValues, attributeClauseValue);
+
+      case 'contains_all':
+        return this.evaluateTypedContainsAll(typedValues, attributeClauseValue);
 
       case 'starts_with':
         return this.evaluateStartsWith(attributeValues, attributeClauseValue);
@@ -83,43 +286,137 @@ export class RuleEngine {
         return this.evaluateEndsWith(attributeValues, attributeClauseValue);
 
       case 'gt':
-        return this.evaluateGreaterThan(attributeValues, attributeClauseValue);
+        return this.evaluateNumeric(typedValues, attributeClauseValue, (v, t) => v > t);
 
       case 'gte':
-        return this.evaluateGreaterThanOrEqual(attributeValues, attributeClauseValue);
+        return this.evaluateNumeric(typedValues, attributeClauseValue, (v, t) => v >= t);
 
       case 'lt':
-        return this.evaluateLessThan(attributeValues, attributeClauseValue);
+        return this.evaluateNumeric(typedValues, attributeClauseValue, (v, t) => v < t);
 
       case 'lte':
-        return this.evaluateLessThanOrEqual(attributeValues, attributeClauseValue);
+        return this.evaluateNumeric(typedValues, attributeClauseValue, (v, t) => v <= t);
+
+      case 'semver_eq':
+        return this.evaluateSemver(attributeValues, attributeClauseValue, (c) => c === 0);
+
+      case 'semver_gt':
+        return this.evaluateSemver(attributeValues, attributeClauseValue, (c) => c > 0);
+
+      case 'semver_gte':
+        return this.evaluateSemver(attributeValues, attributeClauseValue, (c) => c >= 0);
+
+      case 'semver_lt':
+        return this.evaluateSemver(attributeValues, attributeClauseValue, (c) => c < 0);
+
+      case 'semver_lte':
+        return this.evaluateSemver(attributeValues, attributeClauseValue, (c) => c <= 0);
+
+      case 'matches':
+        return this.evaluateMatches(clause, attributeValues) === true;
+
+      case 'not_matches':
+        return this.evaluateMatches(clause, attributeValues) === false;
+
+      case 'before':
+        return this.evaluateDate(typedValues, attributeClauseValue, (date, t) => date < t);
+
+      case 'after':
+        return this.evaluateDate(typedValues, attributeClauseValue, (date, t) => date > t);
+
+      case 'between':
+        return this.evaluateDateBetween(typedValues, attributeClauseValue);
+
+      case 'older_than':
+        return this.evaluateAge(typedValues, attributeClauseValue, (age, limit) => age > limit);
+
+      case 'newer_than':
+        return this.evaluateAge(
+          typedValues,
+          attributeClauseValue,
+          (age, limit) => age >= 0 && age < limit
+        );
+
+      case 'semver_range':
+        return this.evaluateSemverRange(attributeValues, attributeClauseValue);
+
+      case 'not_semver_range':
+        return !this.evaluateSemverRange(attributeValues, attributeClauseValue);
 
       default:
         return false;
     }
   }
 
+  /**
+   * `in_segment` matches when the context is in any of the referenced segments,
+   * `not_in_segment` when it is in none of them
+   */
+  private evaluateSegmentClause(
+    clause: RuleCondition,
+    context: Context,
+    segments: SegmentSet | undefined
+  ): boolean {
+    const keys = this.toTargets(this.toAttributeClauseValue(clause.value));
+
+    if (keys.length === 0) {
+      return false;
+    }
+
+    const inAny = keys.some(
+      (key) => segments !== undefined && this.isInSegment(key, context, segments)
+    );
+
+    return clause.operator === 'in_segment' ? inAny : !inAny;
+  }
+
+  /**
+   * Match a context clause against each individual context whose type it targets: positive
+   * operators match when any of them matches, negated operators when all of them do
+   */
   private evaluateContextClause(clause: RuleCondition, context: Context): boolean {
+    const scoped = clause.context_kind ? context.getContext(clause.context_kind) : context;
+    const results = (scoped?.getContexts() ?? [])
+      .map((entry) => this.evaluateSingleContextClause(clause, entry))
+      .filter((result): result is boolean => result !== null);
+
+    if (results.length === 0) {
+      return false;
+    }
+
+    return NEGATED_OPERATORS.has(clause.operator)
+      ? results.every((result) => result)
+      : results.some((result) => result);
+  }
+
+  /**
+   * Match a context clause against one context; null when the clause has no targets of
+   * the context's type or the context has no identifier
+   */
+  private evaluateSingleContextClause(clause: RuleCondition, context: Context): boolean | null {
     const identifier = context.getIdentifier();
     if (!identifier) {
-      return false;
+      return null;
     }
 
     const targets = this.toContextTargets(clause.value);
     if (targets.length === 0) {
-      return false;
+      return null;
     }
 
     const contextType = context.getType();
-    const matchingTargets = targets
-      .filter((target) => target.type == null || target.type === contextType)
-      .map((target) => target.identifier);
+    const matchingTargets = this.normalizeValues(
+      clause,
+      targets
+        .filter((target) => target.type == null || target.type === contextType)
+        .map((target) => target.identifier)
+    );
 
     if (matchingTargets.length === 0) {
-      return false;
+      return null;
     }
 
-    const values = [identifier];
+    const values = this.normalizeValues(clause, [identifier]);
 
     switch (clause.operator) {
       case 'equals':
@@ -140,6 +437,12 @@ export class RuleEngine {
       case 'not_in':
         return !this.evaluateIn(values, matchingTargets);
 
+      case 'contains_any':
+        return this.evaluateIn(values, matchingTargets);
+
+      case 'contains_all':
+        return this.evaluateContainsAll(values, matchingTargets);
+
       case 'starts_with':
         return this.evaluateStartsWith(values, matchingTargets);
 
@@ -147,22 +450,61 @@ export class RuleEngine {
         return this.evaluateEndsWith(values, matchingTargets);
 
       case 'gt':
-        return this.evaluateGreaterThan(values, matchingTargets);
+        return this.evaluateNumeric(values, matchingTargets, (v, t) => v > t);
 
       case 'gte':
-        return this.evaluateGreaterThanOrEqual(values, matchingTargets);
+        return this.evaluateNumeric(values, matchingTargets, (v, t) => v >= t);
 
       case 'lt':
-        return this.evaluateLessThan(values, matchingTargets);
+        return this.evaluateNumeric(values, matchingTargets, (v, t) => v < t);
 
       case 'lte':
-        return this.evaluateLessThanOrEqual(values, matchingTargets);
+        return this.evaluateNumeric(values, matchingTargets, (v, t) => v <= t);
 
       default:
         return false;
     }
   }
 
+  /**
+   * Prepare strings for a string operator: Unicode-normalize them (NFC), or when the clause
+   * ignores case, fold them (NFKC, then upper- and lower-cased so that 'ß' matches 'SS').
+   * Values for other operators are returned unchanged.
+   */
+  private normalizeValues(clause: RuleCondition, values: string[]): string[] {
+    if (!STRING_OPERATORS.has(clause.operator)) {
+      return values;
+    }
+
+    return values.map((value) =>
+      clause.ignore_case
+        ? value.normalize('NFKC').toUpperCase().toLowerCase()
+        : value.normalize('NFC')
+    );
+  }
+
+  /**
+   * Normalize the string values among typed values (see normalizeValues())
+   */
+  private toTypedValues(clause: RuleCondition, values: AttributeValue[]): AttributeValue[] {
+    return values.map((value) =>
+      typeof value === 'string' ? this.normalizeValues(clause, [value])[0] : value
+    );
+  }
+
+  private normalizeClauseValue(
+    clause: RuleCondition,
+    clauseValue: string | string[] | undefined
+  ): string | string[] | undefined {
+    if (clauseValue === undefined) {
+      return undefined;
+    }
+
+    return Array.isArray(clauseValue)
+      ? this.normalizeValues(clause, clauseValue)
+      : this.normalizeValues(clause, [clauseValue])[0];
+  }
+
   private toContextTargets(
     clauseValue: string | string[] | RuleContextTarget | RuleContextTarget[] | undefined
   ): RuleContextTarget[] {
@@ -220,89 +562,259 @@ export class RuleEngine {
     return undefined;
   }
 
+  /**
+   * Clause values as a list: a single value, every value of an array, or none
+   */
+  private toTargets(clauseValue: string | string[] | undefined): string[] {
+    if (clauseValue === undefined) return [];
+    return Array.isArray(clauseValue) ? clauseValue : [clauseValue];
+  }
+
+  /**
+   * "Any of" semantics: true when any attribute value passes the test against any clause value
+   */
+  private anyPair<T>(
+    values: T[],
+    clauseValue: string | string[] | undefined,
+    test: (value: T, target: string) => boolean
+  ): boolean {
+    const targets = this.toTargets(clauseValue);
+    return values.some((v) => targets.some((target) => test(v, target)));
+  }
+
   private evaluateEquals(values: string[], clauseValue: string | string[] | undefined): boolean {
-    if (clauseValue === undefined) return false;
-    const target = Array.isArray(clauseValue) ? clauseValue[0] : clauseValue;
-    return values.some((v) => v === target);
+    return this.anyPair(values, clauseValue, (v, target) => v === target);
+  }
+
+  /**
+   * Equality by the attribute value's type: numbers compare numerically (`1` equals "1.0"),
+   * booleans with "true"/"false", dates as instants and strings exactly
+   */
+  private evaluateTypedEquals(
+    values: AttributeValue[],
+    clauseValue: string | string[] | undefined
+  ): boolean {
+    return this.anyPair(values, clauseValue, (v, target) => this.valueEquals(v, target));
+  }
+
+  /**
+   * Every clause value equals one of the attribute's values
+   */
+  private evaluateTypedContainsAll(
+    values: AttributeValue[],
+    clauseValue: string | string[] | undefined
+  ): boolean {
+    const targets = this.toTargets(clauseValue);
+    return (
+      targets.length > 0 &&
+      targets.every((target) => values.some((v) => this.valueEquals(v, target)))
+    );
+  }
+
+  private valueEquals(value: AttributeValue, target: string): boolean {
+    if (typeof value === 'string') {
+      return value === target;
+    }
+
+    if (typeof value === 'number') {
+      return target.trim() !== '' && Number(target) === value;
+    }
+
+    if (typeof value === 'boolean') {
+      return target.toLowerCase() === String(value);
+    }
+
+    return parseDate(target) === value.getTime();
   }
 
   private evaluateContains(values: string[], clauseValue: string | string[] | undefined): boolean {
-    if (clauseValue === undefined) return false;
-    const target = Array.isArray(clauseValue) ? clauseValue[0] : clauseValue;
-    return values.some((v) => v.includes(target));
+    return this.anyPair(values, clauseValue, (v, target) => v.includes(target));
   }
 
   private evaluateIn(values: string[], clauseValue: string | string[] | undefined): boolean {
-    if (clauseValue === undefined) return false;
-    const targets = Array.isArray(clauseValue) ? clauseValue : [clauseValue];
-    return values.some((v) => targets.includes(v));
+    return this.evaluateEquals(values, clauseValue);
+  }
+
+  /**
+   * Every clause value is one of the attribute's values
+   */
+  private evaluateContainsAll(
+    values: string[],
+    clauseValue: string | string[] | undefined
+  ): boolean {
+    const targets = this.toTargets(clauseValue);
+    return targets.length > 0 && targets.every((target) => values.includes(target));
   }
 
   private evaluateStartsWith(
     values: string[],
     clauseValue: string | string[] | undefined
   ): boolean {
-    if (clauseValue === undefined) return false;
-    const target = Array.isArray(clauseValue) ? clauseValue[0] : clauseValue;
-    return values.some((v) => v.startsWith(target));
+    return this.anyPair(values, clauseValue, (v, target) => v.startsWith(target));
   }
 
   private evaluateEndsWith(values: string[], clauseValue: string | string[] | undefined): boolean {
-    if (clauseValue === undefined) return false;
-    const target = Array.isArray(clauseValue) ? clauseValue[0] : clauseValue;
-    return values.some((v) => v.endsWith(target));
+    return this.anyPair(values, clauseValue, (v, target) => v.endsWith(target));
+  }
+
+  /**
+   * Compare attribute values with clause values as numbers; values that are not numbers never match
+   */
+  private evaluateNumeric(
+    values: AttributeValue[],
+    clauseValue: string | string[] | undefined,
+    test: (value: number, target: number) => boolean
+  ): boolean {
+    return this.anyPair(values, clauseValue, (v, target) => {
+      const num = typeof v === 'number' ? v : typeof v === 'string' ? parseFloat(v) : NaN;
+      const targetNum = parseFloat(target);
+      return !isNaN(num) && !isNaN(targetNum) && test(num, targetNum);
+    });
   }
 
-  private evaluateGreaterThan(
+  /**
+   * Compare attribute versions with the clause versions by semver precedence;
+   * values that are not valid versions never match
+   */
+  private evaluateSemver(
     values: string[],
-    clauseValue: string | string[] | undefined
+    clauseValue: string | string[] | undefined,
+    test: (comparison: number) => boolean
   ): boolean {
-    if (clauseValue === undefined) return false;
-    const target = Array.isArray(clauseValue) ? clauseValue[0] : clauseValue;
-    const targetNum = parseFloat(target);
-    if (isNaN(targetNum)) return false;
-    return values.some((v) => {
-      const num = parseFloat(v);
-      return !isNaN(num) && num > targetNum;
+    return this.anyPair(values, clauseValue, (v, target) => {
+      const version = parseSemver(v);
+      const targetVersion = parseSemver(target);
+      return (
+        version !== null && targetVersion !== null && test(compareSemver(version, targetVersion))
+      );
     });
   }
 
-  private evaluateGreaterThanOrEqual(
+  private evaluateSemverRange(
     values: string[],
     clauseValue: string | string[] | undefined
   ): boolean {
-    if (clauseValue === undefined) return false;
-    const target = Array.isArray(clauseValue) ? clauseValue[0] : clauseValue;
-    const targetNum = parseFloat(target);
-    if (isNaN(targetNum)) return false;
+    return this.anyPair(values, clauseValue, (v, range) => satisfiesSemverRange(v, range));
+  }
+
+  /**
+   * Test attribute values against the clause's regular expressions (any of them)
+   * Returns null when a pattern is invalid or unsafe, so neither regex operator matches
+   */
+  private evaluateMatches(clause: RuleCondition, values: string[]): boolean | null {
+    const patterns = this.getPatterns(clause);
+    if (patterns === null) return null;
+
+    const maxLength = this.options.regexMaxInputLength ?? DEFAULT_REGEX_MAX_INPUT_LENGTH;
+    const timeLimit = this.options.regexTimeLimit ?? DEFAULT_REGEX_TIME_LIMIT_MS;
+
     return values.some((v) => {
-      const num = parseFloat(v);
-      return !isNaN(num) && num >= targetNum;
+      if (v.length > maxLength) return false;
+
+      return patterns.some((regex) => {
+        const start = Date.now();
+        const matched = regex.test(v);
+
+        // Measured after the fact: this stops a slow pattern from running again, not this match
+        if (Date.now() - start > timeLimit) {
+          this.options.logger?.warn('Regular expression in rule is too slow, disabling it', {
+            pattern: regex.source,
+          });
+          this.patterns.set(clause, null);
+        }
+
+        return matched;
+      });
     });
   }
 
-  private evaluateLessThan(values: string[], clauseValue: string | string[] | undefined): boolean {
-    if (clauseValue === undefined) return false;
-    const target = Array.isArray(clauseValue) ? clauseValue[0] : clauseValue;
-    const targetNum = parseFloat(target);
-    if (isNaN(targetNum)) return false;
-    return values.some((v) => {
-      const num = parseFloat(v);
-      return !isNaN(num) && num < targetNum;
+  private getPatterns(clause: RuleCondition): RegExp[] | null {
+    const cached = this.patterns.get(clause);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const sources = this.toTargets(this.toAttributeClauseValue(clause.value));
+    let patterns: RegExp[] | null = [];
+
+    for (const source of sources) {
+      try {
+        patterns.push(compilePattern(source));
+      } catch (error) {
+        this.options.logger?.warn('Invalid regular expression in rule, treating it as no match', {
+          pattern: source,
+          error: (error as Error).message,
+        });
+        patterns = null;
+        break;
+      }
+    }
+
+    if (patterns !== null && patterns.length === 0) {
+      this.options.logger?.warn('Regular expression rule has no pattern, treating it as no match');
+      patterns = null;
+    }
+
+    this.patterns.set(clause, patterns);
+    return patterns;
+  }
+
+  /**
+   * Compare attribute dates with the clause dates; values that are not dates never match
+   */
+  private evaluateDate(
+    values: AttributeValue[],
+    clauseValue: string | string[] | undefined,
+    test: (date: number, target: number) => boolean
+  ): boolean {
+    return this.anyPair(values, clauseValue, (v, target) => {
+      const date = this.toTime(v);
+      const targetDate = parseDate(target);
+      return date !== null && targetDate !== null && test(date, targetDate);
     });
   }
 
-  private evaluateLessThanOrEqual(
-    values: string[],
+  /**
+   * Match dates within an inclusive `[start, end]` range
+   */
+  private evaluateDateBetween(
+    values: AttributeValue[],
     clauseValue: string | string[] | undefined
   ): boolean {
-    if (clauseValue === undefined) return false;
-    const target = Array.isArray(clauseValue) ? clauseValue[0] : clauseValue;
-    const targetNum = parseFloat(target);
-    if (isNaN(targetNum)) return false;
+    if (!Array.isArray(clauseValue) || clauseValue.length !== 2) return false;
+    const [start, end] = clauseValue.map(parseDate);
+    if (start === null || end === null) return false;
     return values.some((v) => {
-      const num = parseFloat(v);
-      return !isNaN(num) && num <= targetNum;
+      const date = this.toTime(v);
+      return date !== null && date >= start && date <= end;
+    });
+  }
+
+  /**
+   * Compare how long ago attribute dates were (relative to the clock) with the clause durations
+   */
+  private evaluateAge(
+    values: AttributeValue[],
+    clauseValue: string | string[] | undefined,
+    test: (age: number, limit: number) => boolean
+  ): boolean {
+    const now = (this.options.clock ?? Date.now)();
+    return this.anyPair(values, clauseValue, (v, target) => {
+      const date = this.toTime(v);
+      const limit = parseDuration(target);
+      return date !== null && limit !== null && test(now - date, limit);
     });
   }
+
+  /**
+   * Epoch milliseconds of a date value, or of a string or number holding a date or epoch
+   */
+  private toTime(value: AttributeValue): number | null {
+    if (value instanceof Date) {
+      const time = value.getTime();
+      return isNaN(time) ? null : time;
+    }
+
+    return typeof value === 'boolean' ? null : parseDate(String(value));
+  }
 }
@@ -0,0 +1,28 @@
+import * as fs from 'fs';
+import type { RulesResponse } from './types';
+import { isValidRulesResponse } from './rules';
+import { InvalidRulesError } from './errors';
+
+/**
+ * Read and validate a rules JSON file (Node.js only)
+ *
+ * Use with ConfigBuilder.withBootstrap() to start the SDK from a local rules file:
+ *   ConfigBuilder.create().withBootstrap(readRulesFile('./rules.json'))
+ */
+export function readRulesFile(filePath: string): RulesResponse {
+  let data: unknown;
+
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new InvalidRulesError(
+      `Failed to read rules file ${filePath}: ${(error as Error).message}`
+    );
+  }
+
+  if (!isValidRulesResponse(data)) {
+    throw new InvalidRulesError(`${filePath} does not contain a valid rules response`);
+  }
+
+  return data;
+}
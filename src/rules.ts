@@ -0,0 +1,26 @@
+import type { RulesResponse } from './types';
+
+/**
+ * Validate the rules response structure
+ */
+export function isValidRulesResponse(data: unknown): data is RulesResponse {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+
+  const obj = data as Record<string, unknown>;
+
+  if (typeof obj.version !== 'string') {
+    return false;
+  }
+
+  if (!Array.isArray(obj.flags)) {
+    return false;
+  }
+
+  if (obj.segments !== undefined && !Array.isArray(obj.segments)) {
+    return false;
+  }
+
+  return true;
+}
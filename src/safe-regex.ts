@@ -0,0 +1,388 @@
+/**
+ * Compilation of user-supplied regular expressions for targeting rules
+ *
+ * JavaScript cannot interrupt a running regular expression, so patterns prone to
+ * catastrophic backtracking (nested quantifiers, repeated overlapping alternatives,
+ * overlapping quantifiers in a row) are rejected up front and inputs are length-limited.
+ */
+
+export const MAX_PATTERN_LENGTH = 1000;
+
+const LITERAL_PATTERN = /^\/(.*)\/([a-z]*)$/s;
+const ALLOWED_FLAGS = /^[imsu]*$/;
+
+/**
+ * Compile a pattern given either as plain source (`@example\.com$`) or as a
+ * literal with flags (`/^mozilla/i`). Throws a SyntaxError describing why the
+ * pattern was rejected.
+ */
+export function compilePattern(pattern: string): RegExp {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new SyntaxError(`Pattern is longer than ${MAX_PATTERN_LENGTH} characters`);
+  }
+
+  const literal = LITERAL_PATTERN.exec(pattern);
+  const source = literal ? literal[1] : pattern;
+  const flags = literal ? literal[2] : '';
+
+  if (!ALLOWED_FLAGS.test(flags)) {
+    throw new SyntaxError(`Unsupported regular expression flags: ${flags}`);
+  }
+
+  const repetition = scanRepetition(source, flags);
+
+  if (repetition.nestedQuantifier) {
+    throw new SyntaxError('Pattern contains nested quantifiers and may backtrack catastrophically');
+  }
+
+  if (repetition.overlappingAlternation) {
+    throw new SyntaxError(
+      'Pattern repeats alternatives that can match the same input and may backtrack catastrophically'
+    );
+  }
+
+  if (repetition.overlappingQuantifiers) {
+    throw new SyntaxError(
+      'Pattern has quantifiers in a row that can match the same input and may backtrack catastrophically'
+    );
+  }
+
+  return new RegExp(source, flags);
+}
+
+// Token for pattern elements that may match many characters (classes, escapes like \w, groups)
+const ANY_TOKEN = '';
+
+// Characters used to decide whether two pattern atoms can match the same input
+const SAMPLES = Array.from({ length: 0x250 }, (_, code) => String.fromCharCode(code)).concat([
+  '\u2028',
+  '\u3000',
+  '\u3042',
+  '\uff21',
+]);
+
+interface Quantifier {
+  /** Characters taken by the quantifier, including a lazy `?` */
+  length: number;
+  /** The atom may match zero times */
+  optional: boolean;
+  /** The atom may match more than once */
+  repeating: boolean;
+  /** The atom may match any number of times */
+  unbounded: boolean;
+}
+
+/**
+ * One alternative of a group (or the whole pattern), scanned left to right
+ */
+interface Sequence {
+  /** Atoms of the unbounded quantifiers the next atom competes with for input */
+  last: string[];
+  /** Number of competing unbounded quantifiers in the current run */
+  run: number;
+  /** Nothing but optional atoms since the last unbounded quantifier */
+  adjacent: boolean;
+  /** Atoms the sequence can start with, or null before its first atom */
+  first: string[] | null;
+}
+
+interface GroupScan {
+  /** The group contains an unbounded quantifier */
+  unbounded: boolean;
+  /** The group contains alternatives that can match the same input */
+  overlapping: boolean;
+  /** First token of each alternative seen so far */
+  starts: string[];
+  /** The next token is the first of an alternative */
+  atStart: boolean;
+  /** The alternative being scanned */
+  sequence: Sequence;
+  /** Atoms any alternative can start with */
+  first: string[];
+  /** Atoms of the unbounded quantifiers any alternative can end with */
+  tail: string[];
+}
+
+interface RepetitionScan {
+  nestedQuantifier: boolean;
+  overlappingAlternation: boolean;
+  overlappingQuantifiers: boolean;
+}
+
+/**
+ * Detect a quantified group that itself contains an unbounded quantifier, such as
+ * `(a+)+` or `(\w*\s?)*` — the usual cause of exponential backtracking
+ */
+export function hasNestedQuantifier(source: string): boolean {
+  return scanRepetition(source).nestedQuantifier;
+}
+
+/**
+ * Detect a quantified group with alternatives that can start with the same character, such
+ * as `(a|a)*` or `(\w|_)+`, which backtrack exponentially just like nested quantifiers.
+ * Alternatives are compared by their first character only, so some safe patterns such as
+ * `(ab|ac)+` are rejected too.
+ */
+export function hasOverlappingAlternation(source: string): boolean {
+  return scanRepetition(source).overlappingAlternation;
+}
+
+/**
+ * Detect unbounded quantifiers in a row whose atoms can match the same characters, such as
+ * `a*a*` or `\s*\s*$`. Each extra quantifier multiplies the ways to split a failing input,
+ * so two directly adjacent ones, or three separated only by atoms they also match (as in
+ * `.*a.*b.*`), are rejected. Groups are compared by their first atom, so some safe patterns
+ * are rejected too.
+ */
+export function hasOverlappingQuantifiers(source: string, flags = ''): boolean {
+  return scanRepetition(source, flags).overlappingQuantifiers;
+}
+
+function scanRepetition(source: string, flags = ''): RepetitionScan {
+  const result: RepetitionScan = {
+    nestedQuantifier: false,
+    overlappingAlternation: false,
+    overlappingQuantifiers: false,
+  };
+  const groups: GroupScan[] = [];
+  const pattern = newSequence();
+  const samples = new Map<string, Set<number> | null>();
+  let classStart = -1;
+
+  const sequence = (): Sequence => groups[groups.length - 1]?.sequence ?? pattern;
+
+  // Record the first token of the current alternative of the innermost group
+  const token = (value: string): void => {
+    const group = groups[groups.length - 1];
+    if (group?.atStart) {
+      group.starts.push(value);
+      group.atStart = false;
+    }
+  };
+
+  // Record an atom ending just before `index` and skip its quantifier
+  const atom = (atoms: string[], index: number, contains = false, tail: string[] = []): number => {
+    const quantifier = quantifierAt(source, index);
+    const current = sequence();
+    const competes = current.last.length > 0 && overlaps(current.last, atoms, flags, samples);
+
+    current.first ??= quantifier.optional ? [ANY_TOKEN] : atoms;
+
+    if (quantifier.unbounded || contains) {
+      if (competes) {
+        current.run++;
+        result.overlappingQuantifiers ||= current.adjacent || current.run >= 3;
+        current.last = [...current.last, ...atoms, ...tail];
+      } else if (quantifier.optional) {
+        current.run = Math.max(current.run, 1);
+        current.last = [...current.last, ...atoms, ...tail];
+      } else {
+        current.run = 1;
+        current.last = [...atoms, ...tail];
+      }
+      current.adjacent = true;
+    } else if (!quantifier.optional) {
+      if (competes) {
+        current.adjacent = false;
+      } else {
+        Object.assign(current, newSequence(), { first: current.first });
+      }
+    }
+
+    if (groups.length > 0 && quantifier.unbounded) {
+      groups[groups.length - 1].unbounded = true;
+    }
+
+    return quantifier.length;
+  };
+
+  // Close the current alternative of a group
+  const endAlternative = (group: GroupScan): void => {
+    group.first.push(...(group.sequence.first ?? [ANY_TOKEN]));
+    group.tail.push(...group.sequence.last);
+    group.sequence = newSequence();
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === '\\') {
+      const length = escapeLength(source, i);
+      const escape = source.slice(i, i + length);
+      i += length - 1;
+
+      if (classStart !== -1) continue;
+
+      token(escapeToken(escape[1]));
+      if (escape !== '\\b' && escape !== '\\B') {
+        // Back-references can match anything their group did
+        i += atom([/^\\(?:[1-9]|k)/.test(escape) ? ANY_TOKEN : escape], i + 1);
+      }
+      continue;
+    }
+
+    if (classStart !== -1) {
+      if (char === ']') {
+        const atoms = [source.slice(classStart, i + 1)];
+        classStart = -1;
+        i += atom(atoms, i + 1);
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '[':
+        classStart = i;
+        token(ANY_TOKEN);
+        break;
+
+      case '(':
+        token(ANY_TOKEN);
+        groups.push({
+          unbounded: false,
+          overlapping: false,
+          starts: [],
+          atStart: true,
+          sequence: newSequence(),
+          first: [],
+          tail: [],
+        });
+        i += groupPrefixLength(source, i + 1);
+        break;
+
+      case '|': {
+        const group = groups[groups.length - 1];
+        if (group) {
+          // An empty alternative matches wherever any other one does
+          token(ANY_TOKEN);
+          group.atStart = true;
+          endAlternative(group);
+        } else {
+          Object.assign(pattern, newSequence());
+        }
+        break;
+      }
+
+      case ')': {
+        // An empty last alternative matches wherever any other one does
+        token(ANY_TOKEN);
+
+        const group = groups.pop();
+        if (!group) break;
+
+        endAlternative(group);
+        const overlapping = group.overlapping || startsOverlap(group.starts);
+        const quantifier = quantifierAt(source, i + 1);
+
+        if (quantifier.repeating) {
+          result.nestedQuantifier ||= group.unbounded;
+          result.overlappingAlternation ||= overlapping;
+        }
+
+        // The enclosing group now contains whatever this group contained
+        const parent = groups[groups.length - 1];
+        if (parent) {
+          parent.unbounded ||= group.unbounded;
+          parent.overlapping ||= overlapping;
+        }
+
+        i += atom(group.first, i + 1, group.unbounded, group.tail);
+        break;
+      }
+
+      case '^':
+      case '$':
+        // Assertions match no characters
+        token(ANY_TOKEN);
+        break;
+
+      default:
+        token(char === '.' ? ANY_TOKEN : char.toLowerCase());
+        i += atom([char], i + 1);
+    }
+  }
+
+  return result;
+}
+
+function newSequence(): Sequence {
+  return { last: [], run: 0, adjacent: false, first: null };
+}
+
+function escapeToken(char: string | undefined): string {
+  // Character class escapes, back-references and code point escapes can match many characters
+  if (char === undefined || /[dDwWsSbBpPuxck0-9]/.test(char)) {
+    return ANY_TOKEN;
+  }
+  return char.toLowerCase();
+}
+
+// Length of the escape sequence starting with the backslash at `index`
+function escapeLength(source: string, index: number): number {
+  const match =
+    /^\\(?:x[0-9a-fA-F]{2}|u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|c[a-zA-Z]|[pP]\{[^}]*\}|k<[^>]*>|\d+)/.exec(
+      source.slice(index)
+    );
+  return match ? match[0].length : Math.min(2, source.length - index);
+}
+
+function startsOverlap(starts: string[]): boolean {
+  return starts.length > 1 && (starts.includes(ANY_TOKEN) || new Set(starts).size < starts.length);
+}
+
+/**
+ * Whether any atom of `a` can match a character that an atom of `b` also matches
+ */
+function overlaps(
+  a: string[],
+  b: string[],
+  flags: string,
+  cache: Map<string, Set<number> | null>
+): boolean {
+  return a.some((x) =>
+    b.some((y) => {
+      const xs = sampleMatches(x, flags, cache);
+      const ys = sampleMatches(y, flags, cache);
+      return xs === null || ys === null || [...xs].some((index) => ys.has(index));
+    })
+  );
+}
+
+// Indexes of the samples an atom matches, or null when it may match anything
+function sampleMatches(
+  atom: string,
+  flags: string,
+  cache: Map<string, Set<number> | null>
+): Set<number> | null {
+  if (!cache.has(atom)) {
+    let matches: Set<number> | null = null;
+    if (atom !== ANY_TOKEN) {
+      try {
+        const regex = new RegExp(`^(?:${atom})$`, flags);
+        matches = new Set(SAMPLES.flatMap((sample, index) => (regex.test(sample) ? [index] : [])));
+      } catch {
+        matches = null;
+      }
+    }
+    cache.set(atom, matches);
+  }
+  return cache.get(atom) ?? null;
+}
+
+// Length of `?:`, `?=`, `?!`, `?<=`, `?<!` or `?<name>` after an opening parenthesis
+function groupPrefixLength(source: string, index: number): number {
+  return /^\?(?::|=|!|<=|<!|<[^>]*>)/.exec(source.slice(index))?.[0].length ?? 0;
+}
+
+function quantifierAt(source: string, index: number): Quantifier {
+  const match = /^(?:[*+?]|\{(\d+)(,(\d*))?\})\??/.exec(source.slice(index));
+  if (!match) {
+    return { length: 0, optional: false, repeating: false, unbounded: false };
+  }
+
+  const symbol = match[0][0];
+  const min = symbol === '{' ? Number(match[1]) : symbol === '+' ? 1 : 0;
+  const unbounded = symbol === '*' || symbol === '+' || (match[2] !== undefined && !match[3]);
+
+  return { length: match[0].length, optional: min === 0, repeating: symbol !== '?', unbounded };
+}
@@ -0,0 +1,30 @@
+import type { FlagTarget, TargetWindow } from './types';
+import { parseDate } from './dates';
+
+/**
+ * Determine where `now` falls in a target's publishing window
+ *
+ * A target is `scheduled` before its `scheduled_at` (or a future `published_at`), `expired`
+ * from its `expired_at` on, and `active` in between. Returns undefined when the target has
+ * no valid timestamps, i.e. it is always served.
+ */
+export function getTargetWindow(target: FlagTarget, now: number): TargetWindow | undefined {
+  const starts = [target.scheduled_at, target.published_at]
+    .map((value) => (value ? parseDate(value) : null))
+    .filter((time): time is number => time !== null);
+  const expires = target.expired_at ? parseDate(target.expired_at) : null;
+
+  if (starts.length === 0 && expires === null) {
+    return undefined;
+  }
+
+  if (starts.some((start) => now < start)) {
+    return 'scheduled';
+  }
+
+  if (expires !== null && now >= expires) {
+    return 'expired';
+  }
+
+  return 'active';
+}
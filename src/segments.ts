@@ -0,0 +1,139 @@
+import type { Context } from './context';
+import type { RuleCondition, SegmentData } from './types';
+
+/** Operators whose result depends on the current time */
+const CLOCK_OPERATORS = new Set(['older_than', 'newer_than']);
+
+/**
+ * The segment definitions of one rule set, with segment membership cached per context
+ *
+ * Membership is cached per Context object for as long as the set is used, so FlagManager
+ * evaluates each single()/all() call against a fresh copy (`new SegmentSet(segments)`):
+ * changes made to a context between calls are always picked up. Segments whose rules
+ * (directly or through other segments) depend on the current time are never cached.
+ */
+export class SegmentSet {
+  private readonly segments: Map<string, SegmentData>;
+  private readonly results: WeakMap<Context, Map<string, boolean>> = new WeakMap();
+  /** Keys of the segments currently being evaluated, to detect cycles */
+  private readonly evaluating: Set<string> = new Set();
+  /** Keys of the segments whose membership can change over time */
+  private readonly clockDependent: Set<string>;
+
+  /**
+   * @param segments - Segment definitions, or a set to share definitions with (the copy
+   *   starts with an empty cache)
+   */
+  constructor(segments: SegmentData[] | SegmentSet = []) {
+    if (segments instanceof SegmentSet) {
+      this.segments = segments.segments;
+      this.clockDependent = segments.clockDependent;
+      return;
+    }
+
+    this.segments = new Map();
+    this.clockDependent = new Set();
+    const references = new Map<string, Set<string>>();
+
+    for (const segment of segments) {
+      this.segments.set(segment.key, segment);
+
+      const keys = new Set<string>();
+      if (scanRules(segment.rules, keys)) {
+        this.clockDependent.add(segment.key);
+      }
+      references.set(segment.key, keys);
+    }
+
+    // Segments that reference a clock-dependent segment are clock-dependent as well
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const [key, keys] of references) {
+        if (
+          !this.clockDependent.has(key) &&
+          [...keys].some((ref) => this.clockDependent.has(ref))
+        ) {
+          this.clockDependent.add(key);
+          changed = true;
+        }
+      }
+    }
+  }
+
+  get(key: string): SegmentData | undefined {
+    return this.segments.get(key);
+  }
+
+  size(): number {
+    return this.segments.size;
+  }
+
+  /**
+   * Cached membership of a context in a segment, if it has been evaluated
+   */
+  getCached(key: string, context: Context): boolean | undefined {
+    return this.results.get(context)?.get(key);
+  }
+
+  setCached(key: string, context: Context, result: boolean): void {
+    if (this.clockDependent.has(key)) {
+      return;
+    }
+
+    let results = this.results.get(context);
+    if (!results) {
+      results = new Map();
+      this.results.set(context, results);
+    }
+    results.set(key, result);
+  }
+
+  /**
+   * Mark a segment as being evaluated. Returns false when it already is, i.e. the
+   * segment (indirectly) references itself.
+   */
+  enter(key: string): boolean {
+    if (this.evaluating.has(key)) {
+      return false;
+    }
+
+    this.evaluating.add(key);
+    return true;
+  }
+
+  leave(key: string): void {
+    this.evaluating.delete(key);
+  }
+
+  toJSON(): SegmentData[] {
+    return [...this.segments.values()];
+  }
+}
+
+/**
+ * Collect the segments referenced anywhere in a rule structure, returning whether it
+ * uses an operator that depends on the current time
+ */
+function scanRules(value: unknown, keys: Set<string>): boolean {
+  if (Array.isArray(value)) {
+    return value.reduce<boolean>((clock, item) => scanRules(item, keys) || clock, false);
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const clause = value as RuleCondition;
+  if (clause.operator === 'in_segment' || clause.operator === 'not_in_segment') {
+    const targets = Array.isArray(clause.value) ? clause.value : [clause.value];
+    for (const target of targets) {
+      if (typeof target === 'string') {
+        keys.add(target);
+      }
+    }
+  }
+
+  const clock = typeof clause.operator === 'string' && CLOCK_OPERATORS.has(clause.operator);
+  return scanRules(Object.values(value), keys) || clock;
+}
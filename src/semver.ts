@@ -0,0 +1,320 @@
+/**
+ * Semantic version parsing and comparison (https://semver.org) for targeting rules
+ */
+
+/**
+ * A parsed semantic version
+ */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  /** Pre-release identifiers; numeric identifiers are parsed as numbers */
+  prerelease: (string | number)[];
+  /** Build metadata identifiers (ignored when comparing) */
+  build: string[];
+}
+
+type ComparatorOperator = '<' | '<=' | '>' | '>=' | '=';
+
+interface Comparator {
+  operator: ComparatorOperator;
+  version: SemVer;
+}
+
+/**
+ * A version in a range, where missing or `x`/`*` parts are wildcards
+ */
+interface PartialVersion {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease: (string | number)[];
+}
+
+const IDENTIFIERS = '[0-9A-Za-z-]+(?:\\.[0-9A-Za-z-]+)*';
+const VERSION_PATTERN = new RegExp(
+  `^v?(\\d+)(?:\\.(\\d+))?(?:\\.(\\d+))?(?:-(${IDENTIFIERS}))?(?:\\+(${IDENTIFIERS}))?$`
+);
+const PARTIAL_PATTERN = new RegExp(
+  `^v?(\\d+|[xX*])(?:\\.(\\d+|[xX*]))?(?:\\.(\\d+|[xX*]))?(?:-(${IDENTIFIERS}))?(?:\\+${IDENTIFIERS})?$`
+);
+const COMPARATOR_PATTERN = /^(<=|>=|<|>|=|\^|~>?)?(.+)$/;
+const HYPHEN_PATTERN = /^(\S+)\s+-\s+(\S+)$/;
+
+/**
+ * Parse a version such as `1.2.3`, `v1.2.3-beta.1+build.5` or `1.10` (missing parts are 0)
+ * Returns null if the input is not a version
+ */
+export function parseSemver(input: string): SemVer | null {
+  const match = VERSION_PATTERN.exec(input.trim());
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2] ?? 0),
+    patch: Number(match[3] ?? 0),
+    prerelease: parseIdentifiers(match[4]),
+    build: match[5] ? match[5].split('.') : [],
+  };
+}
+
+/**
+ * Compare two versions by precedence: negative if a < b, 0 if equal, positive if a > b.
+ * A pre-release version has lower precedence than its release; build metadata is ignored.
+ */
+export function compareSemver(a: SemVer, b: SemVer): number {
+  return (
+    a.major - b.major ||
+    a.minor - b.minor ||
+    a.patch - b.patch ||
+    comparePrerelease(a.prerelease, b.prerelease)
+  );
+}
+
+/**
+ * Check whether a version satisfies a range
+ *
+ * Supports comparators (`>=1.2.0 <2.0.0`), caret (`^1.2.0`) and tilde (`~1.2.0`) ranges,
+ * x-ranges (`1.x`, `1.2.*`, `*`), hyphen ranges (`1.2.0 - 1.4.0`) and `||` alternatives.
+ * As in npm, a pre-release only matches a comparator set that names a pre-release of the
+ * same major.minor.patch: `1.5.0-rc.1` is not in `^1.0.0`, but `1.0.0-rc.2` is in
+ * `>=1.0.0-rc.1`. Returns false for an invalid version or range.
+ */
+export function satisfiesSemverRange(version: string, range: string): boolean {
+  const parsed = parseSemver(version);
+  const sets = parseRange(range);
+
+  if (parsed === null || sets === null) {
+    return false;
+  }
+
+  return sets.some(
+    (set) =>
+      set.every((comparator) => testComparator(parsed, comparator)) && allowsPrerelease(set, parsed)
+  );
+}
+
+/**
+ * Whether a comparator set opts in to pre-releases of the version's major.minor.patch
+ */
+function allowsPrerelease(set: Comparator[], version: SemVer): boolean {
+  if (version.prerelease.length === 0) {
+    return true;
+  }
+
+  return set.some(
+    ({ version: bound }) =>
+      bound.prerelease.length > 0 &&
+      bound.major === version.major &&
+      bound.minor === version.minor &&
+      bound.patch === version.patch
+  );
+}
+
+function parseIdentifiers(text: string | undefined): (string | number)[] {
+  if (!text) {
+    return [];
+  }
+
+  return text.split('.').map((id) => (/^\d+$/.test(id) ? Number(id) : id));
+}
+
+function comparePrerelease(a: (string | number)[], b: (string | number)[]): number {
+  // A release outranks any of its pre-releases
+  if (a.length === 0 || b.length === 0) {
+    return b.length - a.length;
+  }
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const left = a[i];
+    const right = b[i];
+
+    if (left === right) {
+      continue;
+    }
+
+    // Numeric identifiers sort before alphanumeric ones
+    if (typeof left === 'number' && typeof right === 'number') {
+      return left - right;
+    }
+    if (typeof left === 'number') {
+      return -1;
+    }
+    if (typeof right === 'number') {
+      return 1;
+    }
+
+    return left < right ? -1 : 1;
+  }
+
+  return a.length - b.length;
+}
+
+function testComparator(version: SemVer, comparator: Comparator): boolean {
+  const result = compareSemver(version, comparator.version);
+
+  switch (comparator.operator) {
+    case '<':
+      return result < 0;
+    case '<=':
+      return result <= 0;
+    case '>':
+      return result > 0;
+    case '>=':
+      return result >= 0;
+    case '=':
+      return result === 0;
+  }
+}
+
+/**
+ * Parse a range into alternative comparator sets (null when invalid)
+ */
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = [];
+
+  for (const alternative of range.split('||')) {
+    const set = parseComparatorSet(alternative.trim());
+    if (set === null) {
+      return null;
+    }
+    sets.push(set);
+  }
+
+  return sets;
+}
+
+function parseComparatorSet(text: string): Comparator[] | null {
+  if (text === '') {
+    return [];
+  }
+
+  const hyphen = HYPHEN_PATTERN.exec(text);
+  if (hyphen) {
+    const lower = parsePartial(hyphen[1]);
+    const upper = parsePartial(hyphen[2]);
+    if (lower === null || upper === null) {
+      return null;
+    }
+
+    return [...desugar('>=', lower), ...desugar('<=', upper)];
+  }
+
+  const comparators: Comparator[] = [];
+  // Allow whitespace between an operator and its version, e.g. ">= 1.2.0"
+  const tokens = text.replace(/(<=|>=|<|>|=|\^|~>?)\s+/g, '$1').split(/\s+/);
+
+  for (const token of tokens) {
+    const match = COMPARATOR_PATTERN.exec(token);
+    const partial = match ? parsePartial(match[2]) : null;
+    if (match === null || partial === null) {
+      return null;
+    }
+
+    comparators.push(...desugar(match[1] ?? '', partial));
+  }
+
+  return comparators;
+}
+
+function parsePartial(text: string): PartialVersion | null {
+  const match = PARTIAL_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const part = (value: string | undefined): number | undefined =>
+    value === undefined || /^[xX*]$/.test(value) ? undefined : Number(value);
+
+  const major = part(match[1]);
+  const minor = major === undefined ? undefined : part(match[2]);
+  const patch = minor === undefined ? undefined : part(match[3]);
+
+  return { major, minor, patch, prerelease: parseIdentifiers(match[4]) };
+}
+
+function version(
+  major: number,
+  minor: number,
+  patch: number,
+  prerelease: (string | number)[] = []
+): SemVer {
+  return { major, minor, patch, prerelease, build: [] };
+}
+
+/**
+ * Exclusive upper bound that also excludes the bound's own pre-releases (e.g. `<2.0.0-0`)
+ */
+function below(major: number, minor: number, patch: number): Comparator {
+  return { operator: '<', version: version(major, minor, patch, [0]) };
+}
+
+/**
+ * Translate one operator and (possibly partial) version into plain comparators
+ */
+function desugar(operator: string, partial: PartialVersion): Comparator[] {
+  const { major, minor, patch, prerelease } = partial;
+
+  if (major === undefined) {
+    // `*`, `x`: any version; `<*` and `>*` match nothing
+    return operator === '<' || operator === '>' ? [below(0, 0, 0)] : [];
+  }
+
+  const lower = version(major, minor ?? 0, patch ?? 0, prerelease);
+
+  switch (operator) {
+    case '^':
+      if (major > 0 || minor === undefined) {
+        return [{ operator: '>=', version: lower }, below(major + 1, 0, 0)];
+      }
+      if (minor > 0 || patch === undefined) {
+        return [{ operator: '>=', version: lower }, below(0, minor + 1, 0)];
+      }
+      return [{ operator: '>=', version: lower }, below(0, 0, patch + 1)];
+
+    case '~':
+    case '~>':
+      return minor === undefined
+        ? [{ operator: '>=', version: lower }, below(major + 1, 0, 0)]
+        : [{ operator: '>=', version: lower }, below(major, minor + 1, 0)];
+
+    case '>':
+      if (minor === undefined) {
+        return [{ operator: '>=', version: version(major + 1, 0, 0) }];
+      }
+      if (patch === undefined) {
+        return [{ operator: '>=', version: version(major, minor + 1, 0) }];
+      }
+      return [{ operator: '>', version: lower }];
+
+    case '>=':
+      return [{ operator: '>=', version: lower }];
+
+    case '<':
+      return minor === undefined || patch === undefined
+        ? [below(major, minor ?? 0, 0)]
+        : [{ operator: '<', version: lower }];
+
+    case '<=':
+      if (minor === undefined) {
+        return [below(major + 1, 0, 0)];
+      }
+      if (patch === undefined) {
+        return [below(major, minor + 1, 0)];
+      }
+      return [{ operator: '<=', version: lower }];
+
+    default:
+      // Exact version, or an x-range such as `1.x` / `1.2`
+      if (minor === undefined) {
+        return [{ operator: '>=', version: lower }, below(major + 1, 0, 0)];
+      }
+      if (patch === undefined) {
+        return [{ operator: '>=', version: lower }, below(major, minor + 1, 0)];
+      }
+      return [{ operator: '=', version: lower }];
+  }
+}
@@ -0,0 +1,245 @@
+import type { Logger, RulesResponse } from './types';
+
+const RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+const FALLBACK_AFTER_FAILURES = 3;
+
+/**
+ * A parsed Server-Sent Event
+ */
+export interface StreamEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Callbacks invoked by a RulesStream
+ */
+export interface StreamHandlers {
+  /** A message arrived on the stream */
+  onEvent(event: StreamEvent): void;
+  /** The stream connected; `reconnected` is true for every connection after the first */
+  onOpen?(reconnected: boolean): void;
+  /** The stream failed repeatedly; callers should fall back to polling until onOpen fires again */
+  onFallback?(): void;
+}
+
+/**
+ * Higher-level callbacks for rules updates pushed over the stream
+ */
+export interface RulesStreamListener {
+  /** A complete rule set was pushed */
+  onRules(rules: RulesResponse): void;
+  /** The server signalled that rules changed; the client should re-fetch them */
+  onRulesChanged(): void;
+  onOpen?(reconnected: boolean): void;
+  onFallback?(): void;
+}
+
+/**
+ * Incremental parser for the `text/event-stream` format
+ */
+export class EventStreamParser {
+  private buffer = '';
+  private eventType = '';
+  private data: string[] = [];
+  private id: string | undefined;
+
+  constructor(private readonly onEvent: (event: StreamEvent) => void) {}
+
+  /**
+   * Feed a chunk of decoded text; complete events are dispatched as they are found
+   */
+  push(chunk: string): void {
+    this.buffer += chunk;
+
+    let newline = this.buffer.search(/\r\n|\r|\n/);
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline);
+      const length = this.buffer.startsWith('\r\n', newline) ? 2 : 1;
+      this.buffer = this.buffer.slice(newline + length);
+      this.processLine(line);
+      newline = this.buffer.search(/\r\n|\r|\n/);
+    }
+  }
+
+  private processLine(line: string): void {
+    if (line === '') {
+      this.dispatch();
+      return;
+    }
+
+    // Comment lines (commonly used as keep-alives)
+    if (line.startsWith(':')) {
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'id':
+        this.id = value;
+        break;
+    }
+  }
+
+  private dispatch(): void {
+    if (this.data.length > 0) {
+      this.onEvent({
+        event: this.eventType || 'message',
+        data: this.data.join('\n'),
+        id: this.id,
+      });
+    }
+
+    this.eventType = '';
+    this.data = [];
+  }
+}
+
+/**
+ * Long-lived Server-Sent Events connection with automatic reconnect
+ *
+ * Reconnects with exponential backoff whenever the connection drops. After several
+ * consecutive failures it notifies onFallback() once, and keeps retrying at the
+ * maximum delay until a connection succeeds again.
+ */
+export class RulesStream {
+  private controller: AbortController | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private failures = 0;
+  private connections = 0;
+  private fellBack = false;
+  private running = false;
+
+  constructor(
+    private readonly connect: (signal: AbortSignal) => Promise<Response>,
+    private readonly handlers: StreamHandlers,
+    private readonly logger: Logger
+  ) {}
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    void this.run();
+  }
+
+  stop(): void {
+    this.running = false;
+
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.controller !== null) {
+      this.controller.abort();
+      this.controller = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Whether the stream has given up for now and callers are expected to poll
+   */
+  isFallingBack(): boolean {
+    return this.fellBack;
+  }
+
+  private async run(): Promise<void> {
+    const controller = new AbortController();
+    this.controller = controller;
+
+    try {
+      const response = await this.connect(controller.signal);
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Stream request failed with status ${response.status}`);
+      }
+
+      this.failures = 0;
+      this.fellBack = false;
+      this.handlers.onOpen?.(this.connections > 0);
+      this.connections++;
+      this.logger.debug('Rules stream connected');
+
+      await this.read(response.body);
+
+      this.logger.debug('Rules stream closed by server');
+      this.failures++;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      this.failures++;
+      this.logger.warn('Rules stream error', {
+        error: (error as Error).message,
+        failures: this.failures,
+      });
+    }
+
+    if (!this.running) {
+      return;
+    }
+
+    if (this.failures >= FALLBACK_AFTER_FAILURES && !this.fellBack) {
+      this.fellBack = true;
+      this.logger.warn('Rules stream unavailable, falling back to polling');
+      this.handlers.onFallback?.();
+    }
+
+    this.scheduleReconnect();
+  }
+
+  private async read(body: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    const parser = new EventStreamParser((event) => this.handlers.onEvent(event));
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+
+      parser.push(decoder.decode(value, { stream: true }));
+    }
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(
+      RECONNECT_DELAY_MS * Math.pow(2, Math.max(this.failures - 1, 0)),
+      MAX_RECONNECT_DELAY_MS
+    );
+    this.logger.debug(`Reconnecting rules stream in ${delay}ms`);
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.run();
+    }, delay);
+
+    const timer = this.timer as { unref?: () => void };
+    if (typeof timer.unref === 'function') {
+      timer.unref();
+    }
+  }
+}
@@ -3,6 +3,7 @@
  */
 
 import type { Cache } from './cache/cache.interface';
+import type { Flag } from './flag';
 
 /**
  * Logger interface compatible with console and popular logging libraries
@@ -14,11 +15,16 @@ export interface Logger {
   error(message: string, meta?: Record<string, unknown>): void;
 }
 
+/**
+ * Source of the current time in epoch milliseconds (defaults to Date.now; inject one in tests)
+ */
+export type Clock = () => number;
+
 /**
  * Configuration options for the Zenmanage SDK
  */
 export interface Config {
-  /** Environment token (required) */
+  /** Environment token (required unless offline; empty in offline mode without one) */
   environmentToken: string;
   /** Cache time-to-live in seconds (default: 3600) */
   cacheTtl?: number;
@@ -28,12 +34,66 @@ export interface Config {
   cacheDirectory?: string;
   /** Enable usage reporting (default: true) */
   enableUsageReporting?: boolean;
+  /** Seconds between batched usage reports (default: 30) */
+  usageFlushInterval?: number;
+  /** Distinct usage records that trigger an early report (default: 100) */
+  usageBatchSize?: number;
+  /** Maximum distinct usage records buffered in memory (default: 10000) */
+  usageMaxQueueSize?: number;
   /** API endpoint (default: 'https://api.zenmanage.com') */
   apiEndpoint?: string;
   /** Optional logger instance */
   logger?: Logger;
   /** Custom cache instance (overrides cacheBackend when provided) */
   customCache?: Cache;
+  /**
+   * Seconds that expired cached rules may still be served while they are refreshed in the
+   * background (enables stale-while-revalidate; default: disabled)
+   */
+  cacheMaxStale?: number;
+  /** Background rules polling interval in seconds (default: disabled) */
+  pollingInterval?: number;
+  /** Receive rule updates over a Server-Sent Events stream (default: false) */
+  enableStreaming?: boolean;
+  /** Rules to evaluate against until rules are available from the cache or API */
+  bootstrap?: RulesResponse;
+  /** Never contact the API: evaluate only bootstrap rules and defaults (default: false) */
+  offline?: boolean;
+  /** Clock used to evaluate date rules and target schedules (default: Date.now) */
+  clock?: Clock;
+  /**
+   * Context attribute rollouts bucket on, e.g. "org_id" or "device_id" (default: the context
+   * identifier). Contexts without the attribute are bucketed on their identifier.
+   */
+  bucketBy?: string;
+  /** Attributes (by key) that are used for targeting but never reported as-is */
+  privateAttributes?: string[];
+  /** Treat every context attribute as private (default: false) */
+  allAttributesPrivate?: boolean;
+  /** Whether private attributes are stripped from usage reports or their values hashed (default: 'strip') */
+  privateAttributeMode?: PrivateAttributeMode;
+}
+
+/**
+ * How private context attributes are redacted from usage reports: `strip` removes them,
+ * `hash` replaces each value with its SHA-256 hex digest
+ */
+export type PrivateAttributeMode = 'strip' | 'hash';
+
+/**
+ * Options for Zenmanage.flush()
+ */
+export interface FlushOptions {
+  /** Seconds to wait for pending usage reports before giving up (default: 5) */
+  timeout?: number;
+}
+
+/**
+ * Options for Zenmanage.close()
+ */
+export interface CloseOptions extends FlushOptions {
+  /** Write the rules currently in memory to the cache before closing (default: false) */
+  persistRules?: boolean;
 }
 
 /**
@@ -46,11 +106,50 @@ export type FlagType = 'boolean' | 'string' | 'number';
  */
 export type FlagValue = boolean | string | number;
 
+/**
+ * Map of flag keys to their value types, used to type-check flag access:
+ *
+ *   type MyFlags = { 'new-checkout': boolean; 'theme': string };
+ *   const zenmanage = new Zenmanage<MyFlags>(config);
+ *
+ * Generic classes constrain their schema as `TFlags extends FlagSchema<TFlags>`, which
+ * also accepts schemas declared as interfaces (those have no implicit index signature).
+ */
+export type FlagSchema<TFlags = Record<string, FlagValue>> = { [K in keyof TFlags]: FlagValue };
+
+/**
+ * Flag keys declared by a schema (plain `string` for the default, untyped schema)
+ */
+export type FlagKey<TFlags extends FlagSchema<TFlags>> = Extract<keyof TFlags, string>;
+
+/**
+ * Flag keys of a schema whose values are of type `T`
+ */
+export type FlagKeyOfType<TFlags extends FlagSchema<TFlags>, T extends FlagValue> =
+  string extends FlagKey<TFlags>
+    ? string
+    : { [K in FlagKey<TFlags>]: TFlags[K] extends T ? K : never }[FlagKey<TFlags>];
+
+/**
+ * Type of a context attribute value
+ */
+export type AttributeValueType = 'string' | 'number' | 'boolean' | 'date';
+
+/**
+ * Native value of a context attribute; string lists are attributes with several string values
+ */
+export type AttributeValue = string | number | boolean | Date;
+
 /**
  * Context attribute value
+ *
+ * `value` is always a string (numbers in decimal, booleans as "true"/"false", dates in
+ * ISO-8601), so serialized contexts stay readable by consumers that predate typed values.
  */
 export interface ContextValue {
   value: string;
+  /** Type of the value (default: 'string') */
+  type?: AttributeValueType;
 }
 
 /**
@@ -59,6 +158,8 @@ export interface ContextValue {
 export interface ContextAttribute {
   key: string;
   values: ContextValue[];
+  /** Used for targeting but redacted from usage reports */
+  private?: boolean;
 }
 
 /**
@@ -69,6 +170,10 @@ export interface ContextData {
   name?: string;
   identifier?: string;
   attributes?: ContextAttribute[];
+  /** The individual contexts of a multi-context (type "multi") */
+  contexts?: ContextData[];
+  /** Keys of the private attributes that were stripped or hashed before reporting */
+  redacted?: string[];
 }
 
 /**
@@ -78,6 +183,10 @@ export interface RuleCondition {
   attribute: string;
   operator: string;
   value?: string | string[] | RuleContextTarget | RuleContextTarget[];
+  /** Compare strings case-insensitively (string operators only; default: false) */
+  ignore_case?: boolean;
+  /** Only consider the context of this type (kind) of a multi-context */
+  context_kind?: string;
 }
 
 export interface RuleContextTarget {
@@ -85,10 +194,31 @@ export interface RuleContextTarget {
   type?: string | null;
 }
 
+/**
+ * Boolean group of conditions, nestable to any depth:
+ * - `all`: every member matches
+ * - `any`: at least one member matches
+ * - `not`: the member does not match
+ * When several of these are present, all of them must hold.
+ */
+export interface RuleConditionGroup {
+  all?: RuleExpression[];
+  any?: RuleExpression[];
+  not?: RuleExpression;
+}
+
+/**
+ * A single condition or a group of conditions
+ */
+export type RuleExpression = RuleCondition | RuleConditionGroup;
+
 /**
  * Rule definition
+ *
+ * A rule matches when its `clauses` (or its single `criteria`) and any `all`/`any`/`not`
+ * groups all match. A rule without conditions always matches.
  */
-export interface Rule {
+export interface Rule extends RuleConditionGroup {
   version?: string;
   description?: string;
   criteria?: RuleCondition;
@@ -104,6 +234,33 @@ export interface Rule {
   };
 }
 
+/**
+ * Conditions that put a context in a segment; matched like the conditions of a flag rule
+ */
+export interface SegmentRule extends RuleConditionGroup {
+  description?: string;
+  criteria?: RuleCondition;
+  clauses?: RuleCondition[];
+}
+
+/**
+ * Reusable segment definition, referenced from rules by key with the `in_segment` and
+ * `not_in_segment` operators
+ *
+ * A context is in the segment when it is not excluded, and it is either included or
+ * matches at least one of the segment rules.
+ */
+export interface SegmentData {
+  key: string;
+  name?: string;
+  version?: string;
+  /** Contexts that are always in the segment */
+  included?: RuleContextTarget[];
+  /** Contexts that are never in the segment (takes precedence over `included` and `rules`) */
+  excluded?: RuleContextTarget[];
+  rules?: SegmentRule[];
+}
+
 /**
  * Flag target value
  */
@@ -122,6 +279,20 @@ export interface FlagTarget {
   };
 }
 
+/**
+ * One arm of a multivariate rollout (A/B/n experiment)
+ */
+export interface RolloutVariation {
+  /** Key reported for contexts assigned to this variation, e.g. "control" */
+  key: string;
+  /** Percentage of contexts assigned to this variation (0–100) */
+  weight: number;
+  /** The variation target — same shape as the top-level target */
+  target: FlagTarget;
+  /** Targeting rules specific to the variation target */
+  rules?: Rule[];
+}
+
 /**
  * Rollout data structure from API
  *
@@ -139,6 +310,32 @@ export interface RolloutData {
   salt: string;
   /** Always "active" when present (paused/completed rollouts are omitted) */
   status: string;
+  /**
+   * Context attribute to bucket on (e.g. "org_id"), overriding the SDK's bucketBy option.
+   * Contexts without the attribute are bucketed on their identifier.
+   */
+  bucket_by?: string;
+  /**
+   * Type (kind) of the context to bucket on, e.g. "organization". Contexts of other types
+   * are not in the rollout. Multi-contexts bucket on their first context when this is unset.
+   */
+  context_kind?: string;
+  /**
+   * Weighted variations for an experiment. When present they replace the rollout target,
+   * rules and percentage: each context is assigned a variation by bucket, and contexts
+   * outside the total weight get the fallback target.
+   */
+  variations?: RolloutVariation[];
+}
+
+/**
+ * A flag that must evaluate to a given value before a dependent flag is evaluated
+ */
+export interface FlagPrerequisite {
+  /** Key of the flag this flag depends on */
+  key: string;
+  /** Value the prerequisite flag must evaluate to */
+  value: FlagValue;
 }
 
 /**
@@ -153,6 +350,11 @@ export interface FlagData {
   rules?: Rule[];
   /** Present only when a percentage rollout is active */
   rollout?: RolloutData;
+  /**
+   * Flags that must evaluate to the given values for the same context. When one does not,
+   * the flag's target is served without evaluating its rules or rollout.
+   */
+  prerequisites?: FlagPrerequisite[];
 }
 
 /**
@@ -161,4 +363,62 @@ export interface FlagData {
 export interface RulesResponse {
   version: string;
   flags: FlagData[];
+  /** Segment definitions referenced by flag rules */
+  segments?: SegmentData[];
+}
+
+/**
+ * Why a flag evaluated to its value:
+ * - `rule_match`: a targeting rule matched the context
+ * - `target`: no rule matched, so the flag's target value was served
+ * - `inline_default`: the flag was not found and the default passed to single() was used
+ * - `defaults_collection`: the flag was not found and a DefaultsCollection value was used
+ * - `prerequisite_failed`: a prerequisite flag did not have its required value, so the flag's
+ *   target value was served
+ */
+export type EvaluationReasonKind =
+  | 'rule_match'
+  | 'target'
+  | 'inline_default'
+  | 'defaults_collection'
+  | 'prerequisite_failed';
+
+/**
+ * Where the evaluation time fell in a target's publishing window:
+ * - `scheduled`: before `scheduled_at` (or a future `published_at`); the target is not served yet
+ * - `active`: within the window; the target is served
+ * - `expired`: at or after `expired_at`; the target is no longer served
+ */
+export type TargetWindow = 'scheduled' | 'active' | 'expired';
+
+/**
+ * Details about how a flag value was chosen
+ */
+export interface EvaluationReason {
+  kind: EvaluationReasonKind;
+  /** Position of the matched rule in the evaluated rule list (rule_match only) */
+  ruleIndex?: number;
+  /** Description of the matched rule, when it has one (rule_match only) */
+  ruleDescription?: string;
+  /** Whether the rollout target was served (only set when a rollout is active) */
+  inRollout?: boolean;
+  /** Version of the rule set used for evaluation */
+  rulesVersion?: string;
+  /** Key of the prerequisite flag that failed (prerequisite_failed only) */
+  prerequisiteKey?: string;
+  /** Key of the rollout variation the context was assigned to (multivariate rollouts only) */
+  variation?: string;
+  /**
+   * Publishing window of the flag's target (only set when the target is scheduled or expires).
+   * For default values, the window that prevented the target from being served.
+   */
+  window?: TargetWindow;
+}
+
+/**
+ * A flag together with the reason it evaluated to its value
+ */
+export interface EvaluationDetail {
+  flag: Flag;
+  reason: EvaluationReason;
 }
@@ -0,0 +1,249 @@
+import type { ContextData, Logger } from './types';
+import type { Context } from './context';
+import { Poller } from './poller';
+import { redactContext, type RedactionOptions } from './redaction';
+
+const DEFAULT_FLUSH_INTERVAL = 30;
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_MAX_QUEUE_SIZE = 10000;
+
+/**
+ * Use of one flag by one context, however many times it was evaluated
+ */
+export interface UsageRecord {
+  key: string;
+  context?: ContextData;
+}
+
+/**
+ * Buffering limits for a UsageReporter
+ */
+export interface UsageReporterOptions {
+  /** Seconds between background flushes (default: 30) */
+  flushInterval?: number;
+  /** Number of distinct records that triggers an early flush, and the maximum per request (default: 100) */
+  batchSize?: number;
+  /** Maximum distinct records held in memory; new records beyond this are dropped (default: 10000) */
+  maxQueueSize?: number;
+  /** Private context attributes to redact before records are buffered */
+  redaction?: RedactionOptions;
+}
+
+/**
+ * In-process usage aggregator
+ *
+ * Evaluations are aggregated per flag and context, which is all the usage endpoint records,
+ * and sent in batches, one after another, when the flush interval elapses or the batch size
+ * is reached. Batches that fail to send are merged back into the buffer, which never grows
+ * past maxQueueSize.
+ *
+ * The flush timer does not keep a Node.js process alive, so while records are waiting the
+ * reporter also flushes on `beforeExit`, or on `pagehide` and hidden `visibilitychange` in
+ * browsers.
+ */
+export class UsageReporter {
+  private buffer: Map<string, UsageRecord> = new Map();
+  private sending?: Promise<void>;
+  private detachExitHooks?: () => void;
+  private readonly poller: Poller;
+  private readonly batchSize: number;
+  private readonly maxQueueSize: number;
+  private readonly redaction: RedactionOptions;
+  private dropped = 0;
+  private closed = false;
+
+  constructor(
+    private readonly send: (records: UsageRecord[]) => Promise<void>,
+    private readonly logger: Logger,
+    options: UsageReporterOptions = {}
+  ) {
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.maxQueueSize = options.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+    this.redaction = options.redaction ?? {};
+    this.poller = new Poller(
+      () => this.flush(),
+      (options.flushInterval ?? DEFAULT_FLUSH_INTERVAL) * 1000,
+      logger
+    );
+  }
+
+  /**
+   * Count one evaluation of a flag. Private attributes of the context are redacted here, so
+   * they are never held in the buffer or sent.
+   */
+  record(key: string, context?: Context): void {
+    // Nothing would ever send records made after close()
+    if (this.closed) {
+      return;
+    }
+
+    const data = context ? redactContext(context.toJSON(), this.redaction) : undefined;
+    this.add({ key, context: data });
+
+    // The flush timer and exit hooks only run while there is usage to report
+    this.poller.start();
+    this.attachExitHooks();
+
+    // A flush that is already sending picks these up once it finishes
+    if (this.buffer.size >= this.batchSize && !this.sending) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Number of distinct records waiting to be sent
+   */
+  size(): number {
+    return this.buffer.size;
+  }
+
+  /**
+   * Wait for the flush already sending, if any, then send all buffered records
+   */
+  async flush(): Promise<void> {
+    if (this.dropped > 0) {
+      this.logger.warn('Usage buffer full, dropped usage records', { dropped: this.dropped });
+      this.dropped = 0;
+    }
+
+    // Only one flush sends at a time, so a burst of flushes never floods the API
+    while (this.sending) {
+      await this.sending;
+    }
+
+    const records = [...this.buffer.values()];
+    this.buffer = new Map();
+
+    if (records.length > 0) {
+      this.sending = this.sendBatches(records).finally(() => (this.sending = undefined));
+      await this.sending;
+    }
+
+    // Nothing left to report (failed batches are back in the buffer): stop the timer until
+    // the next record
+    if (this.buffer.size === 0) {
+      this.poller.stop();
+      this.removeExitHooks();
+    }
+  }
+
+  /**
+   * Stop the flush timer and send everything that is buffered. Later records are ignored.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    this.poller.stop();
+    this.removeExitHooks();
+    await this.flush();
+  }
+
+  private attachExitHooks(): void {
+    if (!this.detachExitHooks) {
+      // One flush per exit: the hooks are attached again by the next record, so a failing
+      // flush cannot keep a process alive by retrying on every beforeExit
+      this.detachExitHooks = onExit(() => {
+        this.removeExitHooks();
+        void this.flush();
+      });
+    }
+  }
+
+  private removeExitHooks(): void {
+    this.detachExitHooks?.();
+    this.detachExitHooks = undefined;
+  }
+
+  private async sendBatches(records: UsageRecord[]): Promise<void> {
+    for (let i = 0; i < records.length; i += this.batchSize) {
+      await this.sendBatch(records.slice(i, i + this.batchSize));
+    }
+  }
+
+  private async sendBatch(records: UsageRecord[]): Promise<void> {
+    try {
+      await this.send(records);
+      this.logger.debug('Reported flag usage', { records: records.length });
+    } catch (error) {
+      this.logger.warn('Failed to report usage, will retry on next flush', {
+        error: (error as Error).message,
+        records: records.length,
+      });
+
+      for (const record of records) {
+        this.add(record);
+      }
+    }
+  }
+
+  private add(record: UsageRecord): void {
+    const id = JSON.stringify([record.key, record.context ?? null]);
+
+    if (this.buffer.has(id)) {
+      return;
+    }
+
+    if (this.buffer.size >= this.maxQueueSize) {
+      this.dropped++;
+      return;
+    }
+
+    this.buffer.set(id, record);
+  }
+}
+
+// Reporters waiting for the Node.js event loop to empty, behind a single process listener
+const exitListeners: Set<() => void> = new Set();
+
+// `once` has already removed the process listener; clearing the set lets a listener that
+// attaches while these run register it again
+function runExitListeners(): void {
+  const listeners = [...exitListeners];
+  exitListeners.clear();
+
+  for (const listener of listeners) {
+    listener();
+  }
+}
+
+/**
+ * Call `listener` when the page is hidden or unloaded, or when the Node.js event loop empties
+ * @returns A function that removes the listeners again
+ */
+function onExit(listener: () => void): () => void {
+  const target = globalThis as {
+    addEventListener?: (type: string, listener: () => void) => void;
+    removeEventListener?: (type: string, listener: () => void) => void;
+  };
+
+  if (typeof document !== 'undefined' && typeof target.addEventListener === 'function') {
+    const onVisibilityChange = (): void => {
+      if (document.visibilityState === 'hidden') {
+        listener();
+      }
+    };
+
+    target.addEventListener('pagehide', listener);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+
+    return () => {
+      target.removeEventListener?.('pagehide', listener);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }
+
+  if (typeof process !== 'undefined' && typeof process.once === 'function') {
+    if (exitListeners.size === 0) {
+      process.once('beforeExit', runExitListeners);
+    }
+    exitListeners.add(listener);
+
+    return () => {
+      exitListeners.delete(listener);
+      if (exitListeners.size === 0) {
+        process.removeListener('beforeExit', runExitListeners);
+      }
+    };
+  }
+
+  return () => {};
+}
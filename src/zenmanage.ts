@@ -1,18 +1,26 @@
-import type { Config } from './types';
+import type { Config, CloseOptions, FlagSchema, FlushOptions, Logger } from './types';
 import { ConfigurationError } from './errors';
 import { FlagManager } from './flag-manager';
 import { ApiClient } from './api-client';
 import { RuleEngine } from './rule-engine';
 import { InMemoryCache, NullCache, type Cache } from './cache';
+import type { FlagEventName, FlagEventListener } from './events';
+
+const DEFAULT_SHUTDOWN_TIMEOUT = 5;
 
 /**
  * Main entry point for the Zenmanage SDK
+ *
+ * Pass a flag schema (e.g. `new Zenmanage<MyFlags>(config)`) to type-check flag keys and values.
  */
-export class Zenmanage {
-  private readonly flagManager: FlagManager;
+export class Zenmanage<TFlags extends FlagSchema<TFlags> = FlagSchema> {
+  private readonly flagManager: FlagManager<TFlags>;
+  private readonly logger: Logger;
+  private closing: Promise<boolean> | null = null;
 
   constructor(config: Config) {
     const logger = config.logger!; // Logger is always set by ConfigBuilder
+    this.logger = logger;
 
     // Create cache instance
     const cache = this.createCache(config);
@@ -22,30 +30,130 @@ export class Zenmanage {
       config.environmentToken,
       config.apiEndpoint,
       logger,
-      config.enableUsageReporting
+      config.enableUsageReporting && !config.offline
     );
 
     // Create rule engine
-    const ruleEngine = new RuleEngine();
+    const ruleEngine = new RuleEngine({ logger, clock: config.clock });
 
     // Create flag manager
-    this.flagManager = new FlagManager(
+    this.flagManager = new FlagManager<TFlags>(
       apiClient,
       cache,
       ruleEngine,
       config.cacheTtl || 3600,
-      logger
+      logger,
+      {
+        pollingInterval: config.pollingInterval,
+        streaming: config.enableStreaming,
+        maxStale: config.cacheMaxStale,
+        bootstrap: config.bootstrap,
+        offline: config.offline,
+        usageReporting: config.enableUsageReporting,
+        clock: config.clock,
+        bucketBy: config.bucketBy,
+        usage: {
+          flushInterval: config.usageFlushInterval,
+          batchSize: config.usageBatchSize,
+          maxQueueSize: config.usageMaxQueueSize,
+          redaction: {
+            privateAttributes: config.privateAttributes,
+            allAttributesPrivate: config.allAttributesPrivate,
+            mode: config.privateAttributeMode,
+          },
+        },
+      }
     );
+
+    if (!config.offline && (config.enableStreaming || config.pollingInterval)) {
+      this.flagManager.start();
+    }
   }
 
   /**
    * Get the flag manager instance for flag evaluation
    * Use withContext() on the returned FlagManager to send context to the API
    */
-  flags(): FlagManager {
+  flags(): FlagManager<TFlags> {
     return this.flagManager;
   }
 
+  /**
+   * Subscribe to SDK events: `ready`, `change`, `change:<flag-key>` or `error`
+   */
+  on<E extends FlagEventName>(event: E, listener: FlagEventListener<E>): this {
+    this.flagManager.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  once<E extends FlagEventName>(event: E, listener: FlagEventListener<E>): this {
+    this.flagManager.once(event, listener);
+    return this;
+  }
+
+  /**
+   * Remove a listener added with on() or once()
+   */
+  off<E extends FlagEventName>(event: E, listener: FlagEventListener<E>): this {
+    this.flagManager.off(event, listener);
+    return this;
+  }
+
+  /**
+   * Send buffered usage reports and wait for in-flight ones to finish.
+   * Resolves to false if that did not complete within the timeout.
+   */
+  async flush(options: FlushOptions = {}): Promise<boolean> {
+    return this.withTimeout('flush', this.flagManager.flushUsage(), options.timeout);
+  }
+
+  /**
+   * Shut down: stop polling and streaming, send pending usage reports and optionally
+   * persist the current rules to the cache. Resolves to false if that did not complete
+   * within the timeout. Flags can still be evaluated afterwards from the rules in memory.
+   */
+  async close(options: CloseOptions = {}): Promise<boolean> {
+    if (this.closing === null) {
+      this.closing = this.withTimeout(
+        'close',
+        this.flagManager.close({ persistRules: options.persistRules }),
+        options.timeout
+      );
+    }
+
+    return this.closing;
+  }
+
+  /**
+   * Wait for a shutdown task for at most `timeout` seconds, logging rather than throwing failures
+   */
+  private async withTimeout(
+    operation: string,
+    task: Promise<void>,
+    timeout: number = DEFAULT_SHUTDOWN_TIMEOUT
+  ): Promise<boolean> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const expired = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeout * 1000);
+    });
+
+    try {
+      const completed = await Promise.race([task.then(() => true), expired]);
+      if (!completed) {
+        this.logger.warn(`Zenmanage ${operation} timed out after ${timeout}s`);
+      }
+      return completed;
+    } catch (error) {
+      this.logger.warn(`Zenmanage ${operation} failed`, { error: (error as Error).message });
+      return false;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   /**
    * Create a cache instance based on configuration
    */
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  ANONYMOUS_ID_STORAGE_KEY,
+  getAnonymousIdentifier,
+  type IdentifierStorage,
+} from '../src/anonymous-id';
+import { Context } from '../src/context';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+function createStorage(initial: Record<string, string> = {}): IdentifierStorage {
+  const data = new Map(Object.entries(initial));
+  return {
+    getItem: vi.fn((key: string) => data.get(key) ?? null),
+    setItem: vi.fn((key: string, value: string) => {
+      data.set(key, value);
+    }),
+  };
+}
+
+describe('getAnonymousIdentifier', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should generate and store a UUID on first use', () => {
+    const storage = createStorage();
+
+    const identifier = getAnonymousIdentifier(storage);
+
+    expect(identifier).toMatch(UUID_PATTERN);
+    expect(storage.setItem).toHaveBeenCalledWith(ANONYMOUS_ID_STORAGE_KEY, identifier);
+  });
+
+  it('should reuse the stored identifier', () => {
+    const storage = createStorage({ [ANONYMOUS_ID_STORAGE_KEY]: 'stored-id' });
+
+    expect(getAnonymousIdentifier(storage)).toBe('stored-id');
+    expect(storage.setItem).not.toHaveBeenCalled();
+  });
+
+  it('should generate a new identifier per call without storage', () => {
+    const first = getAnonymousIdentifier(null);
+
+    expect(first).toMatch(UUID_PATTERN);
+    expect(getAnonymousIdentifier(null)).not.toBe(first);
+  });
+
+  it('should generate an identifier when storage throws', () => {
+    const storage: IdentifierStorage = {
+      getItem: () => {
+        throw new Error('SecurityError');
+      },
+      setItem: () => {},
+    };
+
+    expect(getAnonymousIdentifier(storage)).toMatch(UUID_PATTERN);
+  });
+
+  it('should use localStorage by default', () => {
+    const storage = createStorage({ [ANONYMOUS_ID_STORAGE_KEY]: 'browser-id' });
+    vi.stubGlobal('localStorage', storage);
+
+    expect(getAnonymousIdentifier()).toBe('browser-id');
+  });
+
+  it('should generate a UUID without the Web Crypto API', () => {
+    vi.stubGlobal('crypto', undefined);
+
+    expect(getAnonymousIdentifier(createStorage())).toMatch(UUID_PATTERN);
+  });
+});
+
+describe('Context.anonymous', () => {
+  it('should create an anonymous context with the persistent identifier', () => {
+    const storage = createStorage({ [ANONYMOUS_ID_STORAGE_KEY]: 'visitor-1' });
+
+    const context = Context.anonymous(storage);
+
+    expect(context.getType()).toBe('anonymous');
+    expect(context.getIdentifier()).toBe('visitor-1');
+  });
+
+  it('should not share an identifier between contexts without storage', () => {
+    expect(Context.anonymous(null).getIdentifier()).not.toBe(
+      Context.anonymous(null).getIdentifier()
+    );
+  });
+});
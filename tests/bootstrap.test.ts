@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FlagManager } from '../src/flag-manager';
+import { RuleEngine } from '../src/rule-engine';
+import { InMemoryCache } from '../src/cache';
+import { ConfigBuilder } from '../src/config';
+import { ConfigurationError, InvalidRulesError } from '../src/errors';
+import { readRulesFile } from '../src/rules-file';
+import { NodeConfigBuilder } from '../src/node-config';
+import { Zenmanage } from '../src/zenmanage';
+import type { RulesResponse } from '../src/types';
+import { buildFlag, buildRules, createMockApiClient, createMockLogger } from './helpers';
+
+function rules(value: boolean, version?: string): RulesResponse {
+  return buildRules([buildFlag('feature', value)], version);
+}
+
+describe('FlagManager bootstrap', () => {
+  it('should serve bootstrap rules without waiting for the API', async () => {
+    let resolveRules: (value: RulesResponse) => void = () => {};
+    const apiClient = createMockApiClient(() => new Promise((resolve) => (resolveRules = resolve)));
+    const manager = new FlagManager(
+      apiClient,
+      new InMemoryCache(),
+      new RuleEngine(),
+      3600,
+      createMockLogger(),
+      {
+        bootstrap: rules(false, 'bootstrap'),
+      }
+    );
+
+    const { flag, reason } = await manager.singleDetailed('feature');
+    expect(flag.asBool()).toBe(false);
+    expect(reason.rulesVersion).toBe('bootstrap');
+    expect(apiClient.getRules).toHaveBeenCalledTimes(1);
+
+    resolveRules(rules(true));
+    await vi.waitFor(async () => expect((await manager.single('feature')).asBool()).toBe(true));
+  });
+
+  it('should keep bootstrap rules when the API is unreachable', async () => {
+    const apiClient = createMockApiClient(async () => {
+      throw new Error('network down');
+    });
+    const manager = new FlagManager(
+      apiClient,
+      new InMemoryCache(),
+      new RuleEngine(),
+      3600,
+      createMockLogger(),
+      {
+        bootstrap: rules(true),
+      }
+    );
+
+    expect((await manager.single('feature')).asBool()).toBe(true);
+    await vi.waitFor(() => expect(apiClient.getRules).toHaveBeenCalled());
+    expect((await manager.single('feature')).asBool()).toBe(true);
+  });
+
+  it('should prefer cached rules over bootstrap rules', async () => {
+    const cache = new InMemoryCache();
+    await cache.set('zenmanage_rules', JSON.stringify(rules(true)));
+    const apiClient = createMockApiClient(async () => rules(true));
+    const manager = new FlagManager(apiClient, cache, new RuleEngine(), 3600, createMockLogger(), {
+      bootstrap: rules(false),
+    });
+
+    expect((await manager.single('feature')).asBool()).toBe(true);
+    expect(apiClient.getRules).not.toHaveBeenCalled();
+  });
+});
+
+describe('FlagManager offline mode', () => {
+  it('should never call the API', async () => {
+    const apiClient = { ...createMockApiClient(async () => rules(true)), stream: vi.fn() };
+    const manager = new FlagManager(
+      apiClient,
+      new InMemoryCache(),
+      new RuleEngine(),
+      3600,
+      createMockLogger(),
+      {
+        offline: true,
+        bootstrap: rules(false),
+        pollingInterval: 10,
+        streaming: true,
+      }
+    );
+
+    expect((await manager.single('feature')).asBool()).toBe(false);
+    await manager.refreshRules();
+    manager.start();
+
+    expect(apiClient.getRules).not.toHaveBeenCalled();
+    expect(apiClient.sendUsage).not.toHaveBeenCalled();
+    expect(apiClient.stream).not.toHaveBeenCalled();
+    expect(manager.isPolling()).toBe(false);
+  });
+
+  it('should ignore the cache', async () => {
+    const cache = new InMemoryCache();
+    await cache.set('zenmanage_rules', JSON.stringify(rules(true)));
+    const manager = new FlagManager(
+      createMockApiClient(async () => rules(true)),
+      cache,
+      new RuleEngine(),
+      3600,
+      createMockLogger(),
+      { offline: true, bootstrap: rules(false) }
+    );
+
+    expect((await manager.single('feature')).asBool()).toBe(false);
+  });
+
+  it('should fall back to defaults without bootstrap rules', async () => {
+    const manager = new FlagManager(
+      createMockApiClient(async () => rules(true)),
+      new InMemoryCache(),
+      new RuleEngine(),
+      3600,
+      createMockLogger(),
+      { offline: true }
+    );
+
+    expect((await manager.single('feature', true)).asBool()).toBe(true);
+    expect(await manager.all()).toEqual([]);
+  });
+});
+
+describe('ConfigBuilder bootstrap options', () => {
+  it('should accept bootstrap rules and offline mode', () => {
+    const config = ConfigBuilder.create()
+      .withEnvironmentToken('srv_test_123')
+      .withBootstrap(rules(true))
+      .withOffline()
+      .build();
+
+    expect(config.bootstrap).toEqual(rules(true));
+    expect(config.offline).toBe(true);
+  });
+
+  it('should not require an environment token in offline mode', async () => {
+    const config = ConfigBuilder.create().withBootstrap(rules(true)).withOffline().build();
+    const zenmanage = new Zenmanage(config);
+
+    expect((await zenmanage.flags().single('feature')).asBool()).toBe(true);
+    expect(() => ConfigBuilder.create().build()).toThrow('Environment token is required');
+  });
+
+  it('should reject invalid bootstrap rules', () => {
+    const builder = ConfigBuilder.create()
+      .withEnvironmentToken('srv_test_123')
+      .withBootstrap({ flags: [] } as unknown as RulesResponse);
+
+    expect(() => builder.build()).toThrow(ConfigurationError);
+    expect(() => builder.build()).toThrow('Bootstrap rules must be a valid rules response');
+  });
+});
+
+describe('readRulesFile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zenmanage-rules-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read a rules file', () => {
+    const file = path.join(dir, 'rules.json');
+    fs.writeFileSync(file, JSON.stringify(rules(true)));
+
+    expect(readRulesFile(file)).toEqual(rules(true));
+  });
+
+  it('should throw InvalidRulesError for missing or malformed files', () => {
+    const file = path.join(dir, 'rules.json');
+    fs.writeFileSync(file, JSON.stringify({ version: 1 }));
+
+    expect(() => readRulesFile(path.join(dir, 'missing.json'))).toThrow(InvalidRulesError);
+    expect(() => readRulesFile(file)).toThrow('does not contain a valid rules response');
+  });
+});
+
+describe('NodeConfigBuilder', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zenmanage-rules-'));
+    file = path.join(dir, 'rules.json');
+    fs.writeFileSync(file, JSON.stringify(rules(true)));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+  });
+
+  it('should bootstrap from a rules file', () => {
+    const config = NodeConfigBuilder.create().withBootstrapFile(file).withOffline().build();
+
+    expect(config.bootstrap).toEqual(rules(true));
+  });
+
+  it('should throw InvalidRulesError for a missing rules file', () => {
+    expect(() =>
+      NodeConfigBuilder.create().withBootstrapFile(path.join(dir, 'missing.json'))
+    ).toThrow(InvalidRulesError);
+  });
+
+  it('should read the rules file from ZENMANAGE_BOOTSTRAP_FILE', () => {
+    vi.stubEnv('ZENMANAGE_BOOTSTRAP_FILE', file);
+    vi.stubEnv('ZENMANAGE_OFFLINE', 'true');
+
+    const config = NodeConfigBuilder.fromEnvironment().build();
+
+    expect(config.bootstrap).toEqual(rules(true));
+    expect(config.offline).toBe(true);
+  });
+});
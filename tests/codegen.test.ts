@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { generateFlagDefinitions } from '../src/codegen';
+import { runCli } from '../src/cli';
+import type { RulesResponse } from '../src/types';
+
+const rules: RulesResponse = {
+  version: '2026-02-24',
+  flags: [
+    {
+      version: 'fla_1',
+      type: 'string',
+      key: 'theme',
+      name: 'Theme',
+      target: { value: { value: { string: 'dark' } } },
+    },
+    {
+      version: 'fla_2',
+      type: 'boolean',
+      key: 'new-checkout',
+      name: 'New Checkout */ flow',
+      target: { value: { value: { boolean: true } } },
+    },
+    {
+      version: 'fla_3',
+      type: 'number',
+      key: 'page_size',
+      name: 'Page Size',
+      target: { value: { value: {} } },
+    },
+  ],
+};
+
+function captureIO() {
+  const output = { stdout: '', stderr: '' };
+  return {
+    output,
+    io: {
+      stdout: (text: string) => (output.stdout += text),
+      stderr: (text: string) => (output.stderr += text),
+    },
+  };
+}
+
+describe('generateFlagDefinitions', () => {
+  it('should generate a key union, a type map and typed defaults', () => {
+    const source = generateFlagDefinitions(rules);
+
+    expect(source).toContain('// Rules version: 2026-02-24');
+    expect(source).toContain('import { DefaultsCollection } from "@zenmanage/sdk";');
+    expect(source).toContain(
+      'export type ZenmanageFlagKey =\n  | "new-checkout"\n  | "page_size"\n  | "theme";'
+    );
+    expect(source).toContain('  "new-checkout": boolean;');
+    expect(source).toContain('  page_size: number;');
+    expect(source).toContain('  theme: string;');
+    expect(source).toContain('  "new-checkout": true,');
+    expect(source).toContain('  theme: "dark",');
+    expect(source).toContain('return DefaultsCollection.fromObject<ZenmanageFlags>(flagDefaults);');
+  });
+
+  it('should fall back to zero values when a target has no value', () => {
+    expect(generateFlagDefinitions(rules)).toContain('  page_size: 0,');
+  });
+
+  it('should escape flag names used in comments', () => {
+    expect(generateFlagDefinitions(rules)).toContain('/** New Checkout *\\/ flow */');
+  });
+
+  it('should keep the rules version on the header comment line', () => {
+    const source = generateFlagDefinitions({
+      version: '1\nexport const injected = true;\u2028// */',
+      flags: [],
+    });
+
+    expect(source).toContain('// Rules version: 1 export const injected = true; // *\\/\n');
+    expect(source).not.toMatch(/^export const injected/m);
+  });
+
+  it('should generate an empty key union for an empty rule set', () => {
+    const source = generateFlagDefinitions({ version: '1', flags: [] });
+    expect(source).toContain('export type ZenmanageFlagKey = never;');
+  });
+
+  it('should honour a custom import path', () => {
+    const source = generateFlagDefinitions(rules, { importPath: '@zenmanage/sdk/node' });
+    expect(source).toContain('import { DefaultsCollection } from "@zenmanage/sdk/node";');
+  });
+});
+
+describe('zenmanage CLI', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zenmanage-codegen-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should print usage without a command', async () => {
+    const { io, output } = captureIO();
+
+    expect(await runCli([], io)).toBe(1);
+    expect(output.stdout).toContain('Usage: zenmanage codegen');
+  });
+
+  it('should reject unknown commands and options', async () => {
+    const { io, output } = captureIO();
+
+    expect(await runCli(['deploy'], io)).toBe(1);
+    expect(await runCli(['codegen', '--inptu', 'rules.json'], io)).toBe(1);
+    expect(output.stderr).toContain('Unknown command: deploy');
+    expect(output.stderr).toContain('Unknown option: --inptu');
+  });
+
+  it('should generate definitions from a rules file', async () => {
+    const input = path.join(dir, 'rules.json');
+    const outputFile = path.join(dir, 'flags.ts');
+    fs.writeFileSync(input, JSON.stringify(rules));
+    const { io, output } = captureIO();
+
+    expect(await runCli(['codegen', '--input', input, `--output=${outputFile}`], io)).toBe(0);
+    expect(fs.readFileSync(outputFile, 'utf-8')).toBe(generateFlagDefinitions(rules));
+    expect(output.stderr).toContain(`Wrote 3 flag definitions to ${outputFile}`);
+  });
+
+  it('should write to stdout without --output', async () => {
+    const input = path.join(dir, 'rules.json');
+    fs.writeFileSync(input, JSON.stringify(rules));
+    const { io, output } = captureIO();
+
+    expect(await runCli(['codegen', '--input', input], io)).toBe(0);
+    expect(output.stdout).toBe(generateFlagDefinitions(rules));
+  });
+
+  it('should reject a file that is not a rules response', async () => {
+    const input = path.join(dir, 'rules.json');
+    fs.writeFileSync(input, JSON.stringify({ flags: 'nope' }));
+    const { io, output } = captureIO();
+
+    expect(await runCli(['codegen', '--input', input], io)).toBe(1);
+    expect(output.stderr).toContain('does not contain a valid rules response');
+  });
+
+  describe('with an endpoint', () => {
+    let server: Server;
+    let endpoint: string;
+
+    beforeEach(async () => {
+      server = createServer((req, res) => {
+        res.setHeader('Content-Type', 'application/json');
+
+        if (req.url === '/v1/flag-json' && req.headers['x-api-key'] === 'srv_test_123') {
+          res.end(JSON.stringify({ data: { cdn: endpoint, path: '/rules.json' } }));
+        } else if (req.url === '/rules.json') {
+          res.end(JSON.stringify(rules));
+        } else {
+          res.statusCode = 404;
+          res.end('{}');
+        }
+      });
+
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should fetch rules from the endpoint', async () => {
+      const { io, output } = captureIO();
+
+      const code = await runCli(['codegen', '--endpoint', endpoint, '--token', 'srv_test_123'], io);
+
+      expect(code).toBe(0);
+      expect(output.stdout).toBe(generateFlagDefinitions(rules));
+    });
+  });
+});
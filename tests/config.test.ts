@@ -117,6 +117,119 @@ describe('ConfigBuilder', () => {
       expect(config.logger).toBe(customLogger);
     });
 
+    it('should allow enabling stale-while-revalidate', () => {
+      const config = ConfigBuilder.create()
+        .withEnvironmentToken('srv_test_123')
+        .withStaleWhileRevalidate(600)
+        .build();
+
+      expect(config.cacheMaxStale).toBe(600);
+    });
+
+    it('should reject a non-positive max stale limit', () => {
+      const builder = ConfigBuilder.create()
+        .withEnvironmentToken('srv_test_123')
+        .withStaleWhileRevalidate(0);
+
+      expect(() => builder.build()).toThrow(ConfigurationError);
+      expect(() => builder.build()).toThrow('Cache max stale must be greater than 0');
+    });
+
+    it('should allow enabling streaming', () => {
+      const config = ConfigBuilder.create()
+        .withEnvironmentToken('srv_test_123')
+        .withStreaming()
+        .build();
+
+      expect(config.enableStreaming).toBe(true);
+    });
+
+    it('should allow setting a polling interval', () => {
+      const config = ConfigBuilder.create()
+        .withEnvironmentToken('srv_test_123')
+        .withPollingInterval(30)
+        .build();
+
+      expect(config.pollingInterval).toBe(30);
+    });
+
+    it('should reject a non-positive polling interval', () => {
+      const builder = ConfigBuilder.create()
+        .withEnvironmentToken('srv_test_123')
+        .withPollingInterval(0);
+
+      expect(() => builder.build()).toThrow(ConfigurationError);
+      expect(() => builder.build()).toThrow('Polling interval must be greater than 0');
+    });
+
+    it('should allow configuring usage batching', () => {
+      const config = ConfigBuilder.create()
+        .withEnvironmentToken('srv_test_123')
+        .withUsageFlushInterval(10)
+        .withUsageBatchSize(50)
+        .withUsageMaxQueueSize(500)
+        .build();
+
+      expect(config.usageFlushInterval).toBe(10);
+      expect(config.usageBatchSize).toBe(50);
+      expect(config.usageMaxQueueSize).toBe(500);
+    });
+
+    it('should reject invalid usage batching limits', () => {
+      const builder = () => ConfigBuilder.create().withEnvironmentToken('srv_test_123');
+
+      expect(() => builder().withUsageFlushInterval(0).build()).toThrow(
+        'Usage flush interval must be greater than 0'
+      );
+      expect(() => builder().withUsageBatchSize(0).build()).toThrow(
+        'Usage batch size must be at least 1'
+      );
+      expect(() => builder().withUsageMaxQueueSize(0).build()).toThrow(
+        'Usage max queue size must be at least 1'
+      );
+    });
+
+    it('should allow setting a clock', () => {
+      const clock = () => 0;
+      const config = ConfigBuilder.create()
+        .withEnvironmentToken('srv_test_123')
+        .withClock(clock)
+        .build();
+
+      expect(config.clock).toBe(clock);
+    });
+
+    it('should allow setting a bucketing attribute', () => {
+      const config = ConfigBuilder.create()
+        .withEnvironmentToken('srv_test_123')
+        .withBucketBy('org_id')
+        .build();
+
+      expect(config.bucketBy).toBe('org_id');
+    });
+
+    it('should allow configuring private attributes', () => {
+      const config = ConfigBuilder.create()
+        .withEnvironmentToken('srv_test_123')
+        .withPrivateAttributes('email')
+        .withPrivateAttributes('phone', 'ip')
+        .withAllAttributesPrivate()
+        .withPrivateAttributeMode('hash')
+        .build();
+
+      expect(config.privateAttributes).toEqual(['email', 'phone', 'ip']);
+      expect(config.allAttributesPrivate).toBe(true);
+      expect(config.privateAttributeMode).toBe('hash');
+    });
+
+    it('should reject an unknown private attribute mode', () => {
+      const builder = ConfigBuilder.create()
+        .withEnvironmentToken('srv_test_123')
+        .withPrivateAttributeMode('encrypt' as 'hash');
+
+      expect(() => builder.build()).toThrow(ConfigurationError);
+    });
+
     it('should accept server keys in Node.js runtime', () => {
       const config = ConfigBuilder.create().withEnvironmentToken('srv_server_test').build();
 
@@ -170,7 +283,6 @@ describe('ConfigBuilder', () => {
       expect(() => builder.build()).toThrow('Invalid environment token for browser runtime');
       expect(() => builder.build()).toThrow('Use a client key (cli_...)');
     });
-
   });
 
   describe('fromEnvironment', () => {
@@ -184,6 +296,9 @@ describe('ConfigBuilder', () => {
       process.env.ZENMANAGE_CACHE_BACKEND = 'null';
       process.env.ZENMANAGE_ENABLE_USAGE_REPORTING = 'true';
       process.env.ZENMANAGE_API_ENDPOINT = 'https://env.api.com';
+      process.env.ZENMANAGE_BUCKET_BY = 'device_id';
+      process.env.ZENMANAGE_PRIVATE_ATTRIBUTES = 'email, phone';
+      process.env.ZENMANAGE_PRIVATE_ATTRIBUTE_MODE = 'hash';
 
       const config = ConfigBuilder.fromEnvironment().build();
 
@@ -192,6 +307,9 @@ describe('ConfigBuilder', () => {
       expect(config.cacheBackend).toBe('null');
       expect(config.enableUsageReporting).toBe(true);
       expect(config.apiEndpoint).toBe('https://env.api.com');
+      expect(config.bucketBy).toBe('device_id');
+      expect(config.privateAttributes).toEqual(['email', 'phone']);
+      expect(config.privateAttributeMode).toBe('hash');
 
       // Restore env vars
       process.env = originalEnv;
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { Context, Attribute, Value } from '../src/context';
+import { Context, MultiContext, Attribute, Value } from '../src/context';
+import { ZenmanageError } from '../src/errors';
 
 describe('Value', () => {
   it('should create a value', () => {
@@ -11,6 +12,48 @@ describe('Value', () => {
     const value = new Value('test');
     expect(value.toJSON()).toEqual({ value: 'test' });
   });
+
+  it('should serialize typed values as strings with their type', () => {
+    expect(new Value(42.5).toJSON()).toEqual({ value: '42.5', type: 'number' });
+    expect(new Value(false).toJSON()).toEqual({ value: 'false', type: 'boolean' });
+    expect(new Value(new Date('2026-03-01T12:00:00Z')).toJSON()).toEqual({
+      value: '2026-03-01T12:00:00.000Z',
+      type: 'date',
+    });
+  });
+
+  it('should keep the serialized string in value and the native value in getTypedValue()', () => {
+    const date = new Date('2026-03-01T12:00:00Z');
+
+    expect(new Value(42.5).value).toBe('42.5');
+    expect(new Value(42.5).getTypedValue()).toBe(42.5);
+    expect(new Value(true).value).toBe('true');
+    expect(new Value(date).value).toBe('2026-03-01T12:00:00.000Z');
+    expect(new Value(date).getTypedValue()).toBe(date);
+  });
+
+  it('should report the type of a value', () => {
+    expect(new Value('a').getType()).toBe('string');
+    expect(new Value(1).getType()).toBe('number');
+    expect(new Value(true).getType()).toBe('boolean');
+    expect(new Value(new Date(0)).getType()).toBe('date');
+  });
+
+  it('should parse typed values', () => {
+    expect(Value.fromObject({ value: '42.5', type: 'number' }).getTypedValue()).toBe(42.5);
+    expect(Value.fromObject({ value: 'true', type: 'boolean' }).getTypedValue()).toBe(true);
+    expect(Value.fromObject({ value: '2026-03-01', type: 'date' }).getTypedValue()).toEqual(
+      new Date('2026-03-01T00:00:00Z')
+    );
+    expect(Value.fromObject({ value: '42' }).getTypedValue()).toBe('42');
+  });
+
+  it('should keep values that do not parse as their type as strings', () => {
+    expect(Value.fromObject({ value: 'many', type: 'number' }).getTypedValue()).toBe('many');
+    expect(Value.fromObject({ value: '', type: 'number' }).getTypedValue()).toBe('');
+    expect(Value.fromObject({ value: 'yes', type: 'boolean' }).getTypedValue()).toBe('yes');
+    expect(Value.fromObject({ value: 'soon', type: 'date' }).getTypedValue()).toBe('soon');
+  });
 });
 
 describe('Attribute', () => {
@@ -31,6 +74,14 @@ describe('Attribute', () => {
     expect(attr.getValues()).toEqual(['US', 'CA']);
   });
 
+  it('should hold typed values', () => {
+    const signup = new Date('2024-01-15T00:00:00Z');
+    const attr = new Attribute('mixed', [3, true, signup, 'text']);
+
+    expect(attr.getTypedValues()).toEqual([3, true, signup, 'text']);
+    expect(attr.getValues()).toEqual(['3', 'true', '2024-01-15T00:00:00.000Z', 'text']);
+  });
+
   it('should serialize to JSON', () => {
     const attr = new Attribute('country', ['US', 'CA']);
     expect(attr.toJSON()).toEqual({
@@ -38,6 +89,21 @@ describe('Attribute', () => {
       values: [{ value: 'US' }, { value: 'CA' }],
     });
   });
+
+  it('should be marked private', () => {
+    const attr = new Attribute('email', ['jane@example.com']);
+    expect(attr.isPrivate()).toBe(false);
+
+    attr.setPrivate();
+
+    expect(attr.isPrivate()).toBe(true);
+    expect(attr.toJSON()).toEqual({
+      key: 'email',
+      values: [{ value: 'jane@example.com' }],
+      private: true,
+    });
+    expect(new Attribute('email', [], true).isPrivate()).toBe(true);
+  });
 });
 
 describe('Context', () => {
@@ -133,6 +199,44 @@ describe('Context', () => {
     });
   });
 
+  describe('typed attributes', () => {
+    it('should round-trip typed attributes through JSON', () => {
+      const context = new Context('user', undefined, 'user-1', [
+        new Attribute('age', [42]),
+        new Attribute('beta', [true]),
+        new Attribute('signup', [new Date('2024-01-15T00:00:00Z')]),
+        new Attribute('tags', ['a', 'b']),
+      ]);
+
+      const data = context.toJSON();
+      expect(data.attributes?.[0]).toEqual({
+        key: 'age',
+        values: [{ value: '42', type: 'number' }],
+      });
+      expect(data.attributes?.[3]).toEqual({
+        key: 'tags',
+        values: [{ value: 'a' }, { value: 'b' }],
+      });
+
+      const restored = Context.fromObject(data);
+      expect(restored.getAttribute('age')?.getTypedValues()).toEqual([42]);
+      expect(restored.getAttribute('beta')?.getTypedValues()).toEqual([true]);
+      expect(restored.getAttribute('signup')?.getTypedValues()).toEqual([
+        new Date('2024-01-15T00:00:00Z'),
+      ]);
+      expect(restored.toJSON()).toEqual(data);
+    });
+
+    it('should read untyped values as strings', () => {
+      const context = Context.fromObject({
+        type: 'user',
+        attributes: [{ key: 'age', values: [{ value: '42' }] }],
+      });
+
+      expect(context.getAttribute('age')?.getTypedValues()).toEqual(['42']);
+    });
+  });
+
   describe('toJSON', () => {
     it('should serialize to JSON', () => {
       const context = new Context('user', 'John Doe', 'user-123');
@@ -152,6 +256,15 @@ describe('Context', () => {
       });
     });
 
+    it('should round-trip private attributes', () => {
+      const context = new Context('user', undefined, 'user-123');
+      context.addAttribute(new Attribute('email', ['jane@example.com']).setPrivate());
+
+      const restored = Context.fromObject(context.toJSON());
+
+      expect(restored.getAttribute('email')?.isPrivate()).toBe(true);
+    });
+
     it('should omit undefined fields', () => {
       const context = new Context('user');
       const json = context.toJSON();
@@ -168,3 +281,70 @@ describe('Context', () => {
     });
   });
 });
+
+describe('MultiContext', () => {
+  function createMultiContext(): MultiContext {
+    return MultiContext.of(
+      new Context('user', 'Jane', 'user-1', [new Attribute('plan', ['pro'])]),
+      new Context('organization', 'Acme', 'org-1', [new Attribute('plan', ['enterprise'])]),
+      new Context('device', undefined, 'device-1', [new Attribute('os', ['iOS'])])
+    );
+  }
+
+  it('should hold one context per type', () => {
+    const context = createMultiContext();
+    context.add(Context.single('user', 'user-2'));
+
+    expect(context.getType()).toBe('multi');
+    expect(context.getContexts().map((entry) => entry.getIdentifier())).toEqual([
+      'user-2',
+      'org-1',
+      'device-1',
+    ]);
+    expect(context.getContext('organization')?.getIdentifier()).toBe('org-1');
+    expect(context.getContext('session')).toBeUndefined();
+  });
+
+  it('should flatten nested multi-contexts', () => {
+    const context = MultiContext.of(
+      Context.single('user', 'user-1'),
+      MultiContext.of(Context.single('device', 'device-1'))
+    );
+
+    expect(context.getContexts().map((entry) => entry.getType())).toEqual(['user', 'device']);
+  });
+
+  it('should combine attribute values across contexts', () => {
+    const context = createMultiContext();
+
+    expect(context.getAttribute('plan')?.getValues()).toEqual(['pro', 'enterprise']);
+    expect(context.hasAttribute('os')).toBe(true);
+    expect(context.getAttribute('country')).toBeUndefined();
+    expect(context.getAttributes().map((attr) => attr.key)).toEqual(['plan', 'os']);
+  });
+
+  it('should reject attributes added to the multi-context itself', () => {
+    const add = () => createMultiContext().addAttribute(new Attribute('plan', ['pro']));
+    expect(add).toThrow(ZenmanageError);
+    expect(add).toThrow('Attributes must be added to the individual contexts of a MultiContext');
+  });
+
+  it('should round-trip through JSON', () => {
+    const data = createMultiContext().toJSON();
+
+    expect(data.type).toBe('multi');
+    expect(data.contexts).toHaveLength(3);
+
+    const restored = Context.fromObject(data);
+    expect(restored).toBeInstanceOf(MultiContext);
+    expect(restored.toJSON()).toEqual(data);
+  });
+
+  it('should expose a single context as its only context', () => {
+    const context = Context.single('user', 'user-1');
+
+    expect(context.getContexts()).toEqual([context]);
+    expect(context.getContext('user')).toBe(context);
+    expect(context.getContext('organization')).toBeUndefined();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { parseDate, parseDuration } from '../src/dates';
+
+describe('parseDate', () => {
+  it('should parse ISO-8601 dates and date-times', () => {
+    expect(parseDate('2026-03-01')).toBe(Date.UTC(2026, 2, 1));
+    expect(parseDate('2026-03-01T12:30:00Z')).toBe(Date.UTC(2026, 2, 1, 12, 30));
+    expect(parseDate('2026-03-01T12:30:00+02:00')).toBe(Date.UTC(2026, 2, 1, 10, 30));
+    expect(parseDate('2026-03-01T12:30:00.250Z')).toBe(Date.UTC(2026, 2, 1, 12, 30, 0, 250));
+  });
+
+  it('should read date-times without a time zone as UTC', () => {
+    expect(parseDate('2026-03-01T12:30')).toBe(Date.UTC(2026, 2, 1, 12, 30));
+    expect(parseDate('2026-03-01 12:30:00')).toBe(Date.UTC(2026, 2, 1, 12, 30));
+  });
+
+  it('should parse epoch seconds and milliseconds', () => {
+    const time = Date.UTC(2026, 2, 1);
+
+    expect(parseDate(String(time / 1000))).toBe(time);
+    expect(parseDate(String(time))).toBe(time);
+  });
+
+  it('should return null for values that are not dates', () => {
+    expect(parseDate('yesterday')).toBeNull();
+    expect(parseDate('03/01/2026')).toBeNull();
+    expect(parseDate('2026-13-45')).toBeNull();
+    expect(parseDate('')).toBeNull();
+  });
+});
+
+describe('parseDuration', () => {
+  it.each([
+    ['30d', 30 * 86400000],
+    ['30 days', 30 * 86400000],
+    ['1 day', 86400000],
+    ['12h', 12 * 3600000],
+    ['90 minutes', 90 * 60000],
+    ['45s', 45000],
+    ['250ms', 250],
+    ['2w', 14 * 86400000],
+    ['P30D', 30 * 86400000],
+    ['PT1H30M', 90 * 60000],
+    ['P1W', 7 * 86400000],
+  ])('should parse %s', (value, expected) => {
+    expect(parseDuration(value)).toBe(expected);
+  });
+
+  it('should return null for values that are not durations', () => {
+    expect(parseDuration('30')).toBeNull();
+    expect(parseDuration('3 months')).toBeNull();
+    expect(parseDuration('P')).toBeNull();
+    expect(parseDuration('PT')).toBeNull();
+  });
+});
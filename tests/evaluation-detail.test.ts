@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { FlagManager } from '../src/flag-manager';
+import { Context, Attribute } from '../src/context';
+import { RuleEngine } from '../src/rule-engine';
+import { DefaultsCollection } from '../src/defaults-collection';
+import type { FlagData } from '../src/types';
+import { buildFlag, createMockApiClient, createMockCache, createMockLogger } from './helpers';
+
+function createManager(flags: FlagData[]): FlagManager {
+  const apiClient = createMockApiClient();
+
+  return new FlagManager(
+    apiClient,
+    createMockCache(flags),
+    new RuleEngine(),
+    3600,
+    createMockLogger()
+  );
+}
+
+function testFlag(overrides: Partial<FlagData> = {}): FlagData {
+  return buildFlag('test-flag', false, {
+    name: 'Test Flag',
+    rules: [
+      {
+        description: 'Internal users',
+        clauses: [{ attribute: 'team', operator: 'equals', value: 'internal' }],
+        value: { value: { boolean: true } },
+      },
+      {
+        description: 'Beta testers',
+        clauses: [{ attribute: 'beta', operator: 'equals', value: 'yes' }],
+        value: { value: { boolean: true } },
+      },
+    ],
+    ...overrides,
+  });
+}
+
+describe('FlagManager.singleDetailed', () => {
+  it('should report the matched rule', async () => {
+    const manager = createManager([testFlag()]);
+    const context = new Context('user', undefined, 'user-1', [new Attribute('beta', ['yes'])]);
+
+    const { flag, reason } = await manager.withContext(context).singleDetailed('test-flag');
+
+    expect(flag.asBool()).toBe(true);
+    expect(reason).toEqual({
+      kind: 'rule_match',
+      ruleIndex: 1,
+      ruleDescription: 'Beta testers',
+      rulesVersion: '2026-02-24',
+    });
+  });
+
+  it('should report the target when no rule matches', async () => {
+    const manager = createManager([testFlag()]);
+
+    const { flag, reason } = await manager.singleDetailed('test-flag');
+
+    expect(flag.asBool()).toBe(false);
+    expect(reason).toEqual({ kind: 'target', rulesVersion: '2026-02-24' });
+  });
+
+  it('should report whether the context was in the rollout bucket', async () => {
+    const manager = createManager([
+      testFlag({
+        rules: [],
+        rollout: {
+          target: { value: { value: { boolean: true } } },
+          rules: [],
+          percentage: 50,
+          salt: 'test-salt',
+          status: 'active',
+        },
+      }),
+    ]);
+
+    // test-salt + user-0 => bucket 34 (in), user-2 => bucket 98 (out)
+    const inBucket = await manager
+      .withContext(Context.single('user', 'user-0'))
+      .singleDetailed('test-flag');
+    const outOfBucket = await manager
+      .withContext(Context.single('user', 'user-2'))
+      .singleDetailed('test-flag');
+
+    expect(inBucket.reason.inRollout).toBe(true);
+    expect(inBucket.flag.asBool()).toBe(true);
+    expect(outOfBucket.reason.inRollout).toBe(false);
+    expect(outOfBucket.flag.asBool()).toBe(false);
+  });
+
+  it('should report an inline default', async () => {
+    const manager = createManager([]);
+
+    const { flag, reason } = await manager.singleDetailed('missing', 'fallback');
+
+    expect(flag.asString()).toBe('fallback');
+    expect(reason.kind).toBe('inline_default');
+  });
+
+  it('should report a DefaultsCollection default', async () => {
+    const manager = createManager([]).withDefaults(DefaultsCollection.fromObject({ missing: 42 }));
+
+    const { flag, reason } = await manager.singleDetailed('missing');
+
+    expect(flag.asNumber()).toBe(42);
+    expect(reason.kind).toBe('defaults_collection');
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { FlagEventEmitter, diffFlagKeys } from '../src/events';
+import { FlagManager } from '../src/flag-manager';
+import { Flag } from '../src/flag';
+import { RuleEngine } from '../src/rule-engine';
+import { InMemoryCache } from '../src/cache';
+import { DefaultsCollection } from '../src/defaults-collection';
+import type { FlagData, Logger, SegmentData } from '../src/types';
+import { buildFlag, buildRules, createMockApiClient, createMockLogger } from './helpers';
+
+describe('FlagEventEmitter', () => {
+  let logger: Logger;
+  let emitter: FlagEventEmitter;
+
+  beforeEach(() => {
+    logger = createMockLogger();
+    emitter = new FlagEventEmitter(logger);
+  });
+
+  it('should call listeners with event arguments', () => {
+    const listener = vi.fn();
+    emitter.on('change', listener);
+
+    emitter.emit('change', ['a', 'b']);
+
+    expect(listener).toHaveBeenCalledWith(['a', 'b']);
+  });
+
+  it('should remove listeners with off()', () => {
+    const listener = vi.fn();
+    emitter.on('ready', listener);
+    emitter.off('ready', listener);
+
+    emitter.emit('ready');
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(emitter.listenerCount('ready')).toBe(0);
+  });
+
+  it('should call once() listeners a single time', () => {
+    const listener = vi.fn();
+    emitter.once('ready', listener);
+
+    emitter.emit('ready');
+    emitter.emit('ready');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should remove once() listeners with off()', () => {
+    const listener = vi.fn();
+
+    emitter.once('ready', listener);
+    emitter.off('ready', listener);
+    emitter.emit('ready');
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(emitter.listenerCount('ready')).toBe(0);
+  });
+
+  it('should log listener errors and keep notifying other listeners', () => {
+    const second = vi.fn();
+    emitter.on('ready', () => {
+      throw new Error('boom');
+    });
+    emitter.on('ready', second);
+
+    expect(() => emitter.emit('ready')).not.toThrow();
+    expect(second).toHaveBeenCalled();
+    expect(logger.error).toHaveBeenCalledWith('Listener for "ready" threw an error', {
+      error: 'boom',
+    });
+  });
+});
+
+describe('diffFlagKeys', () => {
+  it('should report added, removed and changed flags', () => {
+    const previous = [
+      buildFlag('same', true),
+      buildFlag('changed', true),
+      buildFlag('removed', true),
+    ];
+    const next = [buildFlag('same', true), buildFlag('changed', false), buildFlag('added', true)];
+
+    const keys = diffFlagKeys(previous.map(Flag.fromObject), next.map(Flag.fromObject));
+
+    expect(keys.sort()).toEqual(['added', 'changed', 'removed']);
+  });
+
+  it('should return an empty list when nothing changed', () => {
+    const flags = [buildFlag('same', true)];
+    expect(diffFlagKeys(flags.map(Flag.fromObject), flags.map(Flag.fromObject))).toEqual([]);
+  });
+
+  it('should report flags referencing a changed segment, directly or through segments', () => {
+    const flags = [
+      inSegment(buildFlag('direct', false), 'beta'),
+      inSegment(buildFlag('indirect', false), 'staff'),
+      inSegment(buildFlag('other', false), 'unchanged'),
+    ].map(Flag.fromObject);
+    const staff: SegmentData = {
+      key: 'staff',
+      rules: [{ clauses: [{ attribute: 'group', operator: 'in_segment', value: 'beta' }] }],
+    };
+    const unchanged: SegmentData = { key: 'unchanged', included: [{ identifier: 'user-9' }] };
+
+    const keys = diffFlagKeys(
+      flags,
+      flags,
+      [{ key: 'beta', included: [{ identifier: 'user-1' }] }, staff, unchanged],
+      [{ key: 'beta', included: [] }, staff, unchanged]
+    );
+
+    expect(keys.sort()).toEqual(['direct', 'indirect']);
+  });
+
+  it('should report flags whose prerequisites changed', () => {
+    const dependent = (key: string, prerequisite: string): FlagData => ({
+      ...buildFlag(key, true),
+      prerequisites: [{ key: prerequisite, value: true }],
+    });
+    const previous = [buildFlag('base', true), dependent('mid', 'base'), dependent('top', 'mid')];
+    const next = [buildFlag('base', false), dependent('mid', 'base'), dependent('top', 'mid')];
+
+    const keys = diffFlagKeys(previous.map(Flag.fromObject), next.map(Flag.fromObject));
+
+    expect(keys.sort()).toEqual(['base', 'mid', 'top']);
+  });
+});
+
+function inSegment(flag: FlagData, segment: string): FlagData {
+  return {
+    ...flag,
+    rules: [
+      {
+        clauses: [{ attribute: 'segment', operator: 'in_segment', value: segment }],
+        value: { value: { boolean: true } },
+      },
+    ],
+  };
+}
+
+describe('FlagManager events', () => {
+  let logger: Logger;
+
+  beforeEach(() => {
+    logger = createMockLogger();
+  });
+
+  it('should emit ready once when rules are first loaded', async () => {
+    const apiClient = createMockApiClient(async () => buildRules([buildFlag('feature', true)]));
+    const manager = new FlagManager(apiClient, new InMemoryCache(), new RuleEngine(), 3600, logger);
+    const ready = vi.fn();
+    const change = vi.fn();
+    manager.on('ready', ready).on('change', change);
+
+    await manager.single('feature');
+    await manager.refreshRules();
+
+    expect(ready).toHaveBeenCalledTimes(1);
+    expect(change).not.toHaveBeenCalled();
+  });
+
+  it('should emit change events for flags whose definitions changed on refresh', async () => {
+    const apiClient = createMockApiClient(
+      vi
+        .fn()
+        .mockResolvedValueOnce(buildRules([buildFlag('a', true), buildFlag('b', true)]))
+        .mockResolvedValueOnce(buildRules([buildFlag('a', true), buildFlag('b', false)]))
+    );
+    const manager = new FlagManager(apiClient, new InMemoryCache(), new RuleEngine(), 3600, logger);
+    const change = vi.fn();
+    const changeA = vi.fn();
+    const changeB = vi.fn();
+    manager.on('change', change).on('change:a', changeA).on('change:b', changeB);
+
+    await manager.all();
+    await manager.refreshRules();
+
+    expect(change).toHaveBeenCalledWith(['b']);
+    expect(changeA).not.toHaveBeenCalled();
+    expect(changeB).toHaveBeenCalledWith('b');
+  });
+
+  it('should emit change events for flags whose segments changed on refresh', async () => {
+    const flag = inSegment(buildFlag('feature', false), 'beta');
+    const apiClient = createMockApiClient(
+      vi
+        .fn()
+        .mockResolvedValueOnce({
+          ...buildRules([flag]),
+          segments: [{ key: 'beta', included: [{ identifier: 'user-1' }] }],
+        })
+        .mockResolvedValueOnce({ ...buildRules([flag]), segments: [{ key: 'beta', included: [] }] })
+    );
+    const manager = new FlagManager(apiClient, new InMemoryCache(), new RuleEngine(), 3600, logger);
+    const change = vi.fn();
+    manager.on('change', change);
+
+    await manager.all();
+    await manager.refreshRules();
+
+    expect(change).toHaveBeenCalledWith(['feature']);
+  });
+
+  it('should share listeners with context copies', async () => {
+    const apiClient = createMockApiClient(
+      vi
+        .fn()
+        .mockResolvedValueOnce(buildRules([buildFlag('a', true)]))
+        .mockResolvedValueOnce(buildRules([buildFlag('a', false)]))
+    );
+    const manager = new FlagManager(apiClient, new InMemoryCache(), new RuleEngine(), 3600, logger);
+    const change = vi.fn();
+    manager.withDefaults(new DefaultsCollection()).on('change', change);
+
+    await manager.all();
+    await manager.refreshRules();
+
+    expect(change).toHaveBeenCalledWith(['a']);
+  });
+
+  it('should emit error when loading rules fails', async () => {
+    const failure = new Error('network down');
+    const apiClient = createMockApiClient(async () => {
+      throw failure;
+    });
+    const manager = new FlagManager(apiClient, new InMemoryCache(), new RuleEngine(), 3600, logger);
+    const error = vi.fn();
+    manager.on('error', error);
+
+    await expect(manager.refreshRules()).rejects.toThrow('network down');
+    expect(error).toHaveBeenCalledWith(failure);
+  });
+});
@@ -1,59 +1,17 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach } from 'vitest';
 import { FlagManager } from '../src/flag-manager';
 import { Flag } from '../src/flag';
-import { Context, Attribute } from '../src/context';
+import { Context, MultiContext, Attribute } from '../src/context';
 import { RuleEngine } from '../src/rule-engine';
 import { DefaultsCollection } from '../src/defaults-collection';
-import type { FlagData, RolloutData, Logger } from '../src/types';
-import type { Cache } from '../src/cache';
-
-/**
- * Helper to create a mock logger that suppresses output
- */
-function createMockLogger(): Logger {
-  return {
-    debug: vi.fn(),
-    info: vi.fn(),
-    warn: vi.fn(),
-    error: vi.fn(),
-  };
-}
-
-/**
- * Helper to create a mock cache pre-loaded with flags
- */
-function createMockCache(flags: FlagData[]): Cache {
-  const data: Record<string, string> = {
-    zenmanage_rules: JSON.stringify({ version: '2026-02-24', flags }),
-  };
-
-  return {
-    get: vi.fn(async (key: string) => data[key] ?? null),
-    set: vi.fn(async () => {}),
-    has: vi.fn(async (key: string) => key in data),
-    delete: vi.fn(async () => {}),
-    clear: vi.fn(async () => {}),
-  };
-}
-
-/**
- * Helper to create a mock API client
- */
-function createMockApiClient() {
-  return {
-    getRules: vi.fn(async () => ({ version: '2026-02-24', flags: [] })),
-    reportUsage: vi.fn(async () => {}),
-  } as any;
-}
+import type { FlagData, FlagTarget, RolloutData, Logger } from '../src/types';
+import { buildFlag, createMockApiClient, createMockCache, createMockLogger } from './helpers';
 
 /**
  * Helper to build a standard flag without rollout
  */
-function buildFlag(overrides: Partial<FlagData> = {}): FlagData {
-  return {
-    version: 'fla_test',
-    type: 'boolean',
-    key: 'test-flag',
+function testFlag(overrides: Partial<FlagData> = {}): FlagData {
+  return buildFlag('test-flag', false, {
     name: 'Test Flag',
     target: {
       version: 'tar_fallback',
@@ -65,9 +23,8 @@ function buildFlag(overrides: Partial<FlagData> = {}): FlagData {
         value: { boolean: false },
       },
     },
-    rules: [],
     ...overrides,
-  };
+  });
 }
 
 /**
@@ -104,7 +61,7 @@ describe('FlagManager with rollouts', () => {
 
   describe('flag without rollout', () => {
     it('should evaluate normally when no rollout is present', async () => {
-      const flagData = buildFlag({ key: 'no-rollout' });
+      const flagData = testFlag({ key: 'no-rollout' });
       const cache = createMockCache([flagData]);
       const apiClient = createMockApiClient();
       const manager = new FlagManager(apiClient, cache, ruleEngine, 3600, logger);
@@ -114,7 +71,7 @@ describe('FlagManager with rollouts', () => {
     });
 
     it('should evaluate rules normally when no rollout is present', async () => {
-      const flagData = buildFlag({
+      const flagData = testFlag({
         key: 'rules-no-rollout',
         rules: [
           {
@@ -138,7 +95,7 @@ describe('FlagManager with rollouts', () => {
   describe('flag with active rollout', () => {
     it('should serve rollout value when context is in bucket', async () => {
       // test-salt + user-0 => bucket 34 => 34 < 50, so IN bucket
-      const flagData = buildFlag({
+      const flagData = testFlag({
         key: 'rollout-flag',
         rollout: buildRollout({ salt: 'test-salt', percentage: 50 }),
       });
@@ -155,7 +112,7 @@ describe('FlagManager with rollouts', () => {
 
     it('should serve fallback value when context is outside bucket', async () => {
       // test-salt + user-2 => bucket 98 => 98 < 50 is false, so NOT in bucket
-      const flagData = buildFlag({
+      const flagData = testFlag({
         key: 'rollout-flag',
         rollout: buildRollout({ salt: 'test-salt', percentage: 50 }),
       });
@@ -172,7 +129,7 @@ describe('FlagManager with rollouts', () => {
 
     it('should serve fallback when no context identifier is provided', async () => {
       // No identifier => isInBucket returns false => fallback
-      const flagData = buildFlag({
+      const flagData = testFlag({
         key: 'rollout-flag',
         rollout: buildRollout({ percentage: 100 }),
       });
@@ -186,11 +143,15 @@ describe('FlagManager with rollouts', () => {
 
       // Even at 100%, null identifier => fallback
       expect(flag.asBool()).toBe(false);
-      expect(apiClient.reportUsage).toHaveBeenCalledWith('rollout-flag', undefined);
+
+      await manager.flushUsage();
+      expect(apiClient.sendUsage).toHaveBeenCalledWith([
+        { key: 'rollout-flag', context: undefined },
+      ]);
     });
 
     it('should serve rollout value to all contexts at 100%', async () => {
-      const flagData = buildFlag({
+      const flagData = testFlag({
         key: 'full-rollout',
         rollout: buildRollout({ salt: 'any-salt', percentage: 100 }),
       });
@@ -207,7 +168,7 @@ describe('FlagManager with rollouts', () => {
     });
 
     it('should serve fallback value to all contexts at 0%', async () => {
-      const flagData = buildFlag({
+      const flagData = testFlag({
         key: 'zero-rollout',
         rollout: buildRollout({ salt: 'any-salt', percentage: 0 }),
       });
@@ -226,7 +187,7 @@ describe('FlagManager with rollouts', () => {
   describe('rollout with rules', () => {
     it('should evaluate rollout rules when context is in bucket', async () => {
       // test-salt + user-0 => bucket 34, in bucket at 50%
-      const flagData = buildFlag({
+      const flagData = testFlag({
         key: 'rollout-rules',
         target: {
           version: 'tar_fallback',
@@ -270,7 +231,7 @@ describe('FlagManager with rollouts', () => {
 
     it('should evaluate fallback rules when context is outside bucket', async () => {
       // test-salt + user-2 => bucket 98, NOT in bucket at 50%
-      const flagData = buildFlag({
+      const flagData = testFlag({
         key: 'rollout-rules',
         target: {
           version: 'tar_fallback',
@@ -313,7 +274,7 @@ describe('FlagManager with rollouts', () => {
 
     it('should use rollout target when in bucket but no rollout rules match', async () => {
       // test-salt + user-0 => bucket 34, in bucket at 50%
-      const flagData = buildFlag({
+      const flagData = testFlag({
         key: 'rollout-no-rule-match',
         target: {
           version: 'tar_fallback',
@@ -350,7 +311,7 @@ describe('FlagManager with rollouts', () => {
 
     it('should use fallback target when outside bucket and no fallback rules match', async () => {
       // test-salt + user-2 => bucket 98, NOT in bucket at 50%
-      const flagData = buildFlag({
+      const flagData = testFlag({
         key: 'fallback-no-rule-match',
         target: {
           version: 'tar_fallback',
@@ -389,7 +350,7 @@ describe('FlagManager with rollouts', () => {
 
   describe('rollout with different flag types', () => {
     it('should handle string flag rollouts', async () => {
-      const flagData = buildFlag({
+      const flagData = testFlag({
         key: 'string-rollout',
         type: 'string',
         target: {
@@ -423,7 +384,7 @@ describe('FlagManager with rollouts', () => {
     });
 
     it('should handle number flag rollouts', async () => {
-      const flagData = buildFlag({
+      const flagData = testFlag({
         key: 'number-rollout',
         type: 'number',
         target: {
@@ -460,11 +421,11 @@ describe('FlagManager with rollouts', () => {
   describe('all() with rollouts', () => {
     it('should evaluate rollouts for all flags', async () => {
       const flags = [
-        buildFlag({
+        testFlag({
           key: 'flag-with-rollout',
           rollout: buildRollout({ salt: 'test-salt', percentage: 50 }),
         }),
-        buildFlag({
+        testFlag({
           key: 'flag-without-rollout',
           target: {
             version: 'tar_normal',
@@ -492,7 +453,7 @@ describe('FlagManager with rollouts', () => {
 
   describe('rollout data preserved through serialization', () => {
     it('should preserve rollout in Flag.fromObject and toJSON', () => {
-      const flagData = buildFlag({
+      const flagData = testFlag({
         key: 'serialized-rollout',
         rollout: buildRollout(),
       });
@@ -510,14 +471,14 @@ describe('FlagManager with rollouts', () => {
     });
 
     it('should not include rollout in toJSON when not present', () => {
-      const flagData = buildFlag({ key: 'no-rollout' });
+      const flagData = testFlag({ key: 'no-rollout' });
       const flag = Flag.fromObject(flagData);
       const json = flag.toJSON();
       expect(json.rollout).toBeUndefined();
     });
 
     it('should correctly load flags with rollouts from cache', async () => {
-      const flagData = buildFlag({
+      const flagData = testFlag({
         key: 'cached-rollout',
         rollout: buildRollout({ salt: 'test-salt', percentage: 50 }),
       });
@@ -534,7 +495,7 @@ describe('FlagManager with rollouts', () => {
 
   describe('edge cases', () => {
     it('should handle rollout with empty rules array', async () => {
-      const flagData = buildFlag({
+      const flagData = testFlag({
         key: 'empty-rules-rollout',
         rules: [],
         rollout: buildRollout({ salt: 'test-salt', percentage: 50, rules: [] }),
@@ -549,7 +510,7 @@ describe('FlagManager with rollouts', () => {
     });
 
     it('should handle context with identifier but no type', async () => {
-      const flagData = buildFlag({
+      const flagData = testFlag({
         key: 'ctx-no-type',
         rollout: buildRollout({ salt: 'test-salt', percentage: 50 }),
       });
@@ -565,11 +526,11 @@ describe('FlagManager with rollouts', () => {
 
     it('should handle multiple flags with different rollout configs', async () => {
       const flags = [
-        buildFlag({
+        testFlag({
           key: 'flag-a',
           rollout: buildRollout({ salt: 'salt-a', percentage: 10 }),
         }),
-        buildFlag({
+        testFlag({
           key: 'flag-b',
           rollout: buildRollout({ salt: 'salt-b', percentage: 90 }),
         }),
@@ -586,7 +547,7 @@ describe('FlagManager with rollouts', () => {
     });
 
     it('should use the default anonymous context (no identifier) when no context is set', async () => {
-      const flagData = buildFlag({
+      const flagData = testFlag({
         key: 'default-context',
         rollout: buildRollout({ salt: 'test-salt', percentage: 100 }),
       });
@@ -598,7 +559,277 @@ describe('FlagManager with rollouts', () => {
       const flag = await manager.single('default-context');
       // Even at 100%, null identifier => fallback
       expect(flag.asBool()).toBe(false);
-      expect(apiClient.reportUsage).toHaveBeenCalledWith('default-context', undefined);
+
+      await manager.flushUsage();
+      expect(apiClient.sendUsage).toHaveBeenCalledWith([
+        { key: 'default-context', context: undefined },
+      ]);
+    });
+  });
+
+  describe('multivariate rollout', () => {
+    function variationTarget(value: string): FlagTarget {
+      return {
+        version: `tar_${value}`,
+        value: { version: `val_${value}`, value: { string: value } },
+      };
+    }
+
+    function buildExperiment(weights: number[]): FlagData {
+      return testFlag({
+        key: 'experiment',
+        type: 'string',
+        target: variationTarget('fallback'),
+        rollout: buildRollout({
+          salt: 'test-salt',
+          variations: weights.map((weight, i) => ({
+            key: `variant-${i}`,
+            weight,
+            target: variationTarget(`value-${i}`),
+          })),
+        }),
+      });
+    }
+
+    function createManager(flags: FlagData[]) {
+      return new FlagManager(
+        createMockApiClient(),
+        createMockCache(flags),
+        ruleEngine,
+        3600,
+        logger
+      );
+    }
+
+    it('should serve the assigned variation and expose its key', async () => {
+      // test-salt + user-0 => bucket 34 => second of 33/33/34
+      const manager = createManager([buildExperiment([33, 33, 34])]);
+
+      const detail = await manager
+        .withContext(Context.single('user', 'user-0'))
+        .singleDetailed('experiment');
+
+      expect(detail.flag.asString()).toBe('value-1');
+      expect(detail.flag.getVariation()).toBe('variant-1');
+      expect(detail.reason).toMatchObject({
+        kind: 'target',
+        inRollout: true,
+        variation: 'variant-1',
+      });
+    });
+
+    it('should keep assignments stable across evaluations', async () => {
+      const manager = createManager([buildExperiment([33, 33, 34])]).withContext(
+        Context.single('user', 'user-2')
+      );
+
+      // test-salt + user-2 => bucket 98 => third variation
+      for (let i = 0; i < 3; i++) {
+        expect((await manager.single('experiment')).getVariation()).toBe('variant-2');
+      }
+    });
+
+    it('should serve the fallback target beyond the total weight', async () => {
+      // test-salt + user-4 => bucket 83 => outside 30/30
+      const manager = createManager([buildExperiment([30, 30])]);
+
+      const detail = await manager
+        .withContext(Context.single('user', 'user-4'))
+        .singleDetailed('experiment');
+
+      expect(detail.flag.asString()).toBe('fallback');
+      expect(detail.flag.getVariation()).toBeUndefined();
+      expect(detail.reason.inRollout).toBe(false);
+      expect(detail.reason.variation).toBeUndefined();
+    });
+
+    it('should ignore the rollout percentage', async () => {
+      const flagData = buildExperiment([100]);
+      flagData.rollout!.percentage = 0;
+      const manager = createManager([flagData]);
+
+      const flag = await manager.withContext(Context.single('user', 'user-2')).single('experiment');
+      expect(flag.getVariation()).toBe('variant-0');
+    });
+
+    it('should apply variation rules', async () => {
+      const flagData = buildExperiment([100]);
+      flagData.rollout!.variations![0].rules = [
+        {
+          clauses: [{ attribute: 'country', operator: 'equals', value: 'US' }],
+          value: { value: { string: 'us-value' } },
+        },
+      ];
+      const manager = createManager([flagData]);
+
+      const context = Context.single('user', 'user-1');
+      context.addAttribute(new Attribute('country', ['US']));
+      const flag = await manager.withContext(context).single('experiment');
+
+      expect(flag.asString()).toBe('us-value');
+      expect(flag.getVariation()).toBe('variant-0');
+    });
+
+    it('should serve the fallback target and warn when weights are invalid', async () => {
+      const manager = createManager([
+        buildExperiment([60, 60]),
+        testFlag({ key: 'healthy', target: variationTarget('ok'), type: 'string' }),
+      ]).withContext(Context.single('user', 'user-0'));
+
+      const flags = await manager.all();
+
+      expect(flags.map((flag) => flag.asString())).toEqual(['fallback', 'ok']);
+      expect(logger.warn).toHaveBeenCalledWith('Invalid rollout, serving the fallback target', {
+        key: 'experiment',
+        error: 'Variation weights must not add up to more than 100',
+      });
+    });
+
+    it('should serve the fallback target when the percentage is invalid', async () => {
+      const manager = createManager([
+        testFlag({ key: 'broken', rollout: buildRollout({ percentage: 150 }) }),
+      ]);
+
+      const detail = await manager
+        .withContext(Context.single('user', 'user-0'))
+        .singleDetailed('broken');
+
+      expect(detail.flag.asBool()).toBe(false);
+      expect(detail.reason.inRollout).toBe(false);
+      expect(logger.warn).toHaveBeenCalledWith('Invalid rollout, serving the fallback target', {
+        key: 'broken',
+        error: 'Percentage must be between 0 and 100',
+      });
+    });
+  });
+
+  describe('bucketing attribute', () => {
+    function createManager(flags: FlagData[], bucketBy?: string) {
+      return new FlagManager(
+        createMockApiClient(),
+        createMockCache(flags),
+        ruleEngine,
+        3600,
+        logger,
+        { bucketBy }
+      );
+    }
+
+    function orgContext(identifier: string | undefined, orgId: string): Context {
+      const context = new Context('user', undefined, identifier);
+      context.addAttribute(new Attribute('org_id', [orgId]));
+      return context;
+    }
+
+    it('should bucket on the attribute named by the rollout', async () => {
+      // test-salt + user-0 => bucket 34 (in), test-salt + user-2 => bucket 98 (out)
+      const manager = createManager([
+        testFlag({ key: 'org-rollout', rollout: buildRollout({ bucket_by: 'org_id' }) }),
+      ]);
+
+      const inOrg = await manager.withContext(orgContext('user-2', 'user-0')).single('org-rollout');
+      const outOrg = await manager
+        .withContext(orgContext('user-0', 'user-2'))
+        .single('org-rollout');
+
+      expect(inOrg.asBool()).toBe(true);
+      expect(outOrg.asBool()).toBe(false);
+    });
+
+    it('should bucket on the SDK bucketing attribute', async () => {
+      const manager = createManager(
+        [testFlag({ key: 'org-rollout', rollout: buildRollout() })],
+        'org_id'
+      );
+
+      const flag = await manager.withContext(orgContext(undefined, 'user-0')).single('org-rollout');
+      expect(flag.asBool()).toBe(true);
+    });
+
+    it('should prefer the rollout attribute over the SDK option', async () => {
+      const manager = createManager(
+        [testFlag({ key: 'org-rollout', rollout: buildRollout({ bucket_by: 'device_id' }) })],
+        'org_id'
+      );
+
+      const context = orgContext('user-2', 'user-2');
+      context.addAttribute(new Attribute('device_id', ['user-0']));
+
+      const flag = await manager.withContext(context).single('org-rollout');
+      expect(flag.asBool()).toBe(true);
+    });
+
+    it('should fall back to the identifier when the attribute is missing', async () => {
+      const manager = createManager([
+        testFlag({ key: 'org-rollout', rollout: buildRollout({ bucket_by: 'org_id' }) }),
+      ]);
+
+      const flag = await manager
+        .withContext(Context.single('user', 'user-0'))
+        .single('org-rollout');
+      expect(flag.asBool()).toBe(true);
+    });
+
+    it('should bucket anonymous contexts on their persistent identifier', async () => {
+      const storage = new Map<string, string>([['zenmanage_anonymous_id', 'user-0']]);
+      const manager = createManager([testFlag({ key: 'org-rollout', rollout: buildRollout() })]);
+
+      const context = Context.anonymous({
+        getItem: (key) => storage.get(key) ?? null,
+        setItem: (key, value) => storage.set(key, value),
+      });
+
+      const flag = await manager.withContext(context).single('org-rollout');
+      expect(flag.asBool()).toBe(true);
+    });
+  });
+
+  describe('bucketing kind', () => {
+    // test-salt: user-0 => bucket 34 (in at 50%), user-2 => bucket 98 (out)
+    const context = MultiContext.of(
+      Context.single('user', 'user-2'),
+      Context.single('organization', 'user-0')
+    );
+
+    async function evaluate(rollout: Partial<RolloutData>, evaluated: Context): Promise<boolean> {
+      const manager = new FlagManager(
+        createMockApiClient(),
+        createMockCache([testFlag({ key: 'kind-rollout', rollout: buildRollout(rollout) })]),
+        ruleEngine,
+        3600,
+        logger
+      );
+
+      return (await manager.withContext(evaluated).single('kind-rollout')).asBool();
+    }
+
+    it('should bucket on the context of the rollout kind', async () => {
+      expect(await evaluate({ context_kind: 'organization' }, context)).toBe(true);
+      expect(await evaluate({ context_kind: 'user' }, context)).toBe(false);
+    });
+
+    it('should bucket multi-contexts on their first context by default', async () => {
+      expect(await evaluate({}, context)).toBe(false);
+    });
+
+    it('should keep contexts without the rollout kind out of the rollout', async () => {
+      expect(await evaluate({ context_kind: 'device', percentage: 100 }, context)).toBe(false);
+      expect(
+        await evaluate({ context_kind: 'organization' }, Context.single('user', 'user-0'))
+      ).toBe(false);
+    });
+
+    it('should combine the rollout kind with its bucketing attribute', async () => {
+      const organization = new Context('organization', undefined, 'user-2', [
+        new Attribute('region_id', ['user-0']),
+      ]);
+
+      expect(
+        await evaluate(
+          { context_kind: 'organization', bucket_by: 'region_id' },
+          MultiContext.of(Context.single('user', 'user-2'), organization)
+        )
+      ).toBe(true);
     });
   });
 });
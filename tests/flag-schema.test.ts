@@ -0,0 +1,116 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { FlagManager } from '../src/flag-manager';
+import { Zenmanage } from '../src/zenmanage';
+import { ConfigBuilder } from '../src/config';
+import { RuleEngine } from '../src/rule-engine';
+import { InMemoryCache } from '../src/cache';
+import { DefaultsCollection } from '../src/defaults-collection';
+import type { FlagKeyOfType } from '../src/types';
+import { buildFlag, buildRules, createMockApiClient, createMockLogger } from './helpers';
+
+type AppFlags = {
+  'new-checkout': boolean;
+  theme: string;
+  'page-size': number;
+};
+
+interface InterfaceFlags {
+  'new-checkout': boolean;
+  theme: string;
+}
+
+function createManager(): FlagManager<AppFlags> {
+  const apiClient = createMockApiClient(async () => buildRules([buildFlag('new-checkout', true)]));
+
+  return new FlagManager<AppFlags>(
+    apiClient,
+    new InMemoryCache(),
+    new RuleEngine(),
+    3600,
+    createMockLogger()
+  );
+}
+
+describe('Flag schema generics', () => {
+  it('should narrow typed accessor keys to flags of the matching type', () => {
+    expectTypeOf<FlagKeyOfType<AppFlags, boolean>>().toEqualTypeOf<'new-checkout'>();
+    expectTypeOf<FlagKeyOfType<AppFlags, string>>().toEqualTypeOf<'theme'>();
+    expectTypeOf<FlagKeyOfType<AppFlags, number>>().toEqualTypeOf<'page-size'>();
+  });
+
+  it('should accept schemas declared as interfaces', async () => {
+    expectTypeOf<FlagKeyOfType<InterfaceFlags, string>>().toEqualTypeOf<'theme'>();
+
+    const manager = new FlagManager<InterfaceFlags>(
+      createMockApiClient(async () => buildRules([buildFlag('new-checkout', true)])),
+      new InMemoryCache(),
+      new RuleEngine(),
+      3600,
+      createMockLogger()
+    );
+
+    expect(await manager.boolValue('new-checkout', false)).toBe(true);
+    expect(DefaultsCollection.fromObject<InterfaceFlags>({ theme: 'dark' }).get('theme')).toBe(
+      'dark'
+    );
+  });
+
+  it('should reject schemas with non-flag value types at compile time', () => {
+    // @ts-expect-error flag values must be booleans, strings or numbers
+    type Invalid = FlagManager<{ settings: { nested: boolean } }>;
+    expectTypeOf<Invalid>().not.toBeNever();
+  });
+
+  it('should keep accepting any key without a schema', () => {
+    expectTypeOf<FlagKeyOfType<Record<string, boolean>, boolean>>().toEqualTypeOf<string>();
+    expectTypeOf<Parameters<FlagManager['boolValue']>[0]>().toEqualTypeOf<string>();
+  });
+
+  it('should evaluate flags through a typed manager', async () => {
+    const manager = createManager();
+
+    expect(await manager.boolValue('new-checkout', false)).toBe(true);
+    expect(await manager.stringValue('theme', 'light')).toBe('light');
+    expect((await manager.single('page-size', 25)).asNumber()).toBe(25);
+  });
+
+  it('should reject unknown keys and mismatched value types at compile time', () => {
+    const manager = createManager();
+
+    // These calls are type-checked only, never executed
+    const compileTimeChecks = () => {
+      // @ts-expect-error unknown flag key
+      void manager.single('new-chekout');
+      // @ts-expect-error default value must match the flag's declared type
+      void manager.single('theme', true);
+      // @ts-expect-error 'theme' is not a boolean flag
+      void manager.boolValue('theme', false);
+      // @ts-expect-error 'new-checkout' is not a number flag
+      void manager.numberValue('new-checkout', 1);
+    };
+
+    expect(typeof compileTimeChecks).toBe('function');
+  });
+
+  it('should constrain DefaultsCollection keys and values', async () => {
+    const defaults = DefaultsCollection.fromObject<AppFlags>({ theme: 'dark' }).set(
+      'page-size',
+      50
+    );
+
+    // @ts-expect-error value must be a number
+    const invalid = () => defaults.set('page-size', 'fifty');
+    expect(typeof invalid).toBe('function');
+
+    const manager = createManager().withDefaults(defaults);
+    expect((await manager.single('theme')).asString()).toBe('dark');
+    expectTypeOf(defaults.get('page-size')).toEqualTypeOf<number | undefined>();
+  });
+
+  it('should expose a typed FlagManager from Zenmanage', () => {
+    const config = ConfigBuilder.create().withEnvironmentToken('srv_test_123').build();
+    const zenmanage = new Zenmanage<AppFlags>(config);
+
+    expectTypeOf(zenmanage.flags()).toEqualTypeOf<FlagManager<AppFlags>>();
+  });
+});
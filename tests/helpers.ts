@@ -0,0 +1,59 @@
+import { vi } from 'vitest';
+import type { Cache } from '../src/cache';
+import type { FlagData, Logger, RulesResponse } from '../src/types';
+
+/**
+ * Shared factories for the test suites
+ */
+
+export function createMockLogger(): Logger {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+}
+
+/**
+ * A cache that already holds a rule set with the given flags
+ */
+export function createMockCache(flags: FlagData[]): Cache {
+  const data: Record<string, string> = {
+    zenmanage_rules: JSON.stringify(buildRules(flags)),
+  };
+
+  return {
+    get: vi.fn(async (key: string) => data[key] ?? null),
+    set: vi.fn(async () => {}),
+    has: vi.fn(async (key: string) => key in data),
+    delete: vi.fn(async () => {}),
+    clear: vi.fn(async () => {}),
+  };
+}
+
+export function createMockApiClient(getRules: () => Promise<unknown> = async () => buildRules([])) {
+  return {
+    getRules: vi.fn(getRules),
+    sendUsage: vi.fn(async () => {}),
+  } as any;
+}
+
+/**
+ * A boolean flag without rules that serves `value`
+ */
+export function buildFlag(key: string, value = true, overrides: Partial<FlagData> = {}): FlagData {
+  return {
+    version: 'fla_test',
+    type: 'boolean',
+    key,
+    name: key,
+    target: { value: { value: { boolean: value } } },
+    rules: [],
+    ...overrides,
+  };
+}
+
+export function buildRules(flags: FlagData[], version = '2026-02-24'): RulesResponse {
+  return { version, flags };
+}
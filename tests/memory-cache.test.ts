@@ -72,6 +72,21 @@ describe('InMemoryCache', () => {
     });
   });
 
+  describe('getEntry', () => {
+    it('should return expired entries with their expiry time', async () => {
+      await cache.set('key1', 'value1', 0.1);
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      const entry = await cache.getEntry('key1');
+      expect(entry?.value).toBe('value1');
+      expect(entry?.expires).toBeLessThan(Date.now());
+    });
+
+    it('should return null for non-existent keys', async () => {
+      expect(await cache.getEntry('nonexistent')).toBeNull();
+    });
+  });
+
   describe('delete', () => {
     it('should delete existing keys', async () => {
       await cache.set('key1', 'value1');
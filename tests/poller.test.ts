@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Poller } from '../src/poller';
+import { FlagManager } from '../src/flag-manager';
+import { RuleEngine } from '../src/rule-engine';
+import { InMemoryCache } from '../src/cache';
+import { DefaultsCollection } from '../src/defaults-collection';
+import { ConfigurationError } from '../src/errors';
+import type { Logger } from '../src/types';
+import { buildFlag, buildRules, createMockApiClient, createMockLogger } from './helpers';
+
+describe('Poller', () => {
+  let logger: Logger;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    logger = createMockLogger();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should run the task once per interval', async () => {
+    const task = vi.fn(async () => {});
+    const poller = new Poller(task, 1000, logger);
+
+    poller.start();
+    expect(task).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    poller.stop();
+  });
+
+  it('should stop running the task after stop()', async () => {
+    const task = vi.fn(async () => {});
+    const poller = new Poller(task, 1000, logger);
+
+    poller.start();
+    poller.stop();
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(task).not.toHaveBeenCalled();
+    expect(poller.isRunning()).toBe(false);
+  });
+
+  it('should keep a single timer chain when restarted while the task runs', async () => {
+    let finish: () => void = () => {};
+    const task = vi.fn(
+      () =>
+        new Promise<void>((resolve) => {
+          finish = resolve;
+        })
+    );
+    const poller = new Poller(task, 1000, logger);
+
+    poller.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    poller.stop();
+    poller.start();
+    finish();
+
+    task.mockImplementation(async () => {});
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(task).toHaveBeenCalledTimes(6);
+
+    poller.stop();
+  });
+
+  it('should back off exponentially on failures and reset on success', async () => {
+    let fail = true;
+    const task = vi.fn(async () => {
+      if (fail) {
+        throw new Error('network down');
+      }
+    });
+    const poller = new Poller(task, 1000, logger);
+
+    poller.start();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(poller.getNextDelay()).toBe(2000);
+    expect(logger.warn).toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(poller.getNextDelay()).toBe(4000);
+
+    fail = false;
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(poller.getNextDelay()).toBe(1000);
+
+    poller.stop();
+  });
+
+  it('should cap the backoff delay', async () => {
+    const task = vi.fn(async () => {
+      throw new Error('network down');
+    });
+    const poller = new Poller(task, 60_000, logger);
+
+    poller.start();
+    for (let i = 0; i < 6; i++) {
+      await vi.advanceTimersByTimeAsync(poller.getNextDelay());
+    }
+
+    expect(poller.getNextDelay()).toBe(5 * 60 * 1000);
+    poller.stop();
+  });
+});
+
+describe('FlagManager polling', () => {
+  let logger: Logger;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    logger = createMockLogger();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should throw when started without a polling interval', () => {
+    const apiClient = { getRules: vi.fn(), sendUsage: vi.fn() } as any;
+    const manager = new FlagManager(apiClient, new InMemoryCache(), new RuleEngine(), 3600, logger);
+
+    expect(() => manager.start()).toThrow(ConfigurationError);
+  });
+
+  it('should refresh rules in the background and share them with context copies', async () => {
+    const apiClient = createMockApiClient(
+      vi
+        .fn()
+        .mockResolvedValueOnce(buildRules([buildFlag('feature', false)]))
+        .mockResolvedValueOnce(buildRules([buildFlag('feature', true)]))
+    );
+    const manager = new FlagManager(
+      apiClient,
+      new InMemoryCache(),
+      new RuleEngine(),
+      3600,
+      logger,
+      {
+        pollingInterval: 10,
+      }
+    );
+
+    expect((await manager.single('feature')).asBool()).toBe(false);
+    const copy = manager.withDefaults(new DefaultsCollection());
+
+    manager.start();
+    expect(manager.isPolling()).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(apiClient.getRules).toHaveBeenCalledTimes(2);
+    expect((await manager.single('feature')).asBool()).toBe(true);
+    expect((await copy.single('feature')).asBool()).toBe(true);
+
+    manager.stop();
+    expect(manager.isPolling()).toBe(false);
+  });
+
+  it('should keep the last known rules when a background refresh fails', async () => {
+    const apiClient = createMockApiClient(
+      vi
+        .fn()
+        .mockResolvedValueOnce(buildRules([buildFlag('feature', true)]))
+        .mockRejectedValue(new Error('network down'))
+    );
+    const manager = new FlagManager(
+      apiClient,
+      new InMemoryCache(),
+      new RuleEngine(),
+      3600,
+      logger,
+      {
+        pollingInterval: 10,
+      }
+    );
+
+    await manager.single('feature');
+    manager.start();
+
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(apiClient.getRules).toHaveBeenCalledTimes(2);
+    expect((await manager.single('feature')).asBool()).toBe(true);
+
+    manager.stop();
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { FlagManager } from '../src/flag-manager';
+import { Flag } from '../src/flag';
+import { Context, Attribute } from '../src/context';
+import { RuleEngine } from '../src/rule-engine';
+import type { FlagData, FlagPrerequisite } from '../src/types';
+import { buildFlag, createMockApiClient, createMockCache, createMockLogger } from './helpers';
+
+/**
+ * A boolean flag that is off, and turned on for US contexts
+ */
+function countryFlag(key: string, prerequisites?: FlagPrerequisite[]): FlagData {
+  return buildFlag(key, false, {
+    version: `fla_${key}`,
+    rules: [
+      {
+        clauses: [{ attribute: 'country', operator: 'equals', value: 'US' }],
+        value: { value: { boolean: true } },
+      },
+    ],
+    prerequisites,
+  });
+}
+
+function createManager(flags: FlagData[]) {
+  const logger = createMockLogger();
+  const apiClient = createMockApiClient();
+  const manager = new FlagManager(
+    apiClient,
+    createMockCache(flags),
+    new RuleEngine(),
+    3600,
+    logger,
+    {
+      usageReporting: false,
+    }
+  );
+
+  return { manager, logger };
+}
+
+function countryContext(country: string): Context {
+  return new Context('user', undefined, 'user-1', [new Attribute('country', [country])]);
+}
+
+describe('prerequisite flags', () => {
+  const checkout = countryFlag('new-checkout');
+  const checkoutV2 = countryFlag('new-checkout-v2', [{ key: 'new-checkout', value: true }]);
+
+  it('should evaluate the flag when its prerequisites pass', async () => {
+    const { manager } = createManager([checkout, checkoutV2]);
+
+    const detail = await manager
+      .withContext(countryContext('US'))
+      .singleDetailed('new-checkout-v2');
+
+    expect(detail.flag.asBool()).toBe(true);
+    expect(detail.reason.kind).toBe('rule_match');
+  });
+
+  it('should serve the target and report the failed prerequisite', async () => {
+    const { manager } = createManager([
+      countryFlag('new-checkout'),
+      {
+        ...checkoutV2,
+        // Would match any context if the prerequisite passed
+        rules: [{ value: { value: { boolean: true } } }],
+      },
+    ]);
+
+    const detail = await manager
+      .withContext(countryContext('CA'))
+      .singleDetailed('new-checkout-v2');
+
+    expect(detail.flag.asBool()).toBe(false);
+    expect(detail.reason).toMatchObject({
+      kind: 'prerequisite_failed',
+      prerequisiteKey: 'new-checkout',
+    });
+  });
+
+  it('should fail when a prerequisite flag is missing', async () => {
+    const { manager } = createManager([checkoutV2]);
+
+    const detail = await manager
+      .withContext(countryContext('US'))
+      .singleDetailed('new-checkout-v2');
+
+    expect(detail.reason).toMatchObject({
+      kind: 'prerequisite_failed',
+      prerequisiteKey: 'new-checkout',
+    });
+  });
+
+  it('should compare non-boolean prerequisite values', async () => {
+    const theme: FlagData = {
+      version: 'fla_theme',
+      type: 'string',
+      key: 'theme',
+      name: 'Theme',
+      target: { value: { value: { string: 'dark' } } },
+    };
+    const { manager } = createManager([
+      theme,
+      countryFlag('dark-logo', [{ key: 'theme', value: 'dark' }]),
+      countryFlag('light-logo', [{ key: 'theme', value: 'light' }]),
+    ]);
+
+    const flags = manager.withContext(countryContext('US'));
+    expect((await flags.singleDetailed('dark-logo')).reason.kind).toBe('rule_match');
+    expect((await flags.singleDetailed('light-logo')).reason.kind).toBe('prerequisite_failed');
+  });
+
+  it('should evaluate prerequisites recursively', async () => {
+    const { manager } = createManager([
+      countryFlag('a'),
+      countryFlag('b', [{ key: 'a', value: true }]),
+      countryFlag('c', [{ key: 'b', value: true }]),
+    ]);
+
+    expect(await manager.withContext(countryContext('US')).boolValue('c', false)).toBe(true);
+
+    const detail = await manager.withContext(countryContext('CA')).singleDetailed('c');
+    expect(detail.reason).toMatchObject({ kind: 'prerequisite_failed', prerequisiteKey: 'b' });
+  });
+
+  it('should detect prerequisite cycles', async () => {
+    const { manager, logger } = createManager([
+      countryFlag('a', [{ key: 'b', value: true }]),
+      countryFlag('b', [{ key: 'a', value: true }]),
+    ]);
+
+    const detail = await manager.withContext(countryContext('US')).singleDetailed('a');
+
+    expect(detail.flag.asBool()).toBe(false);
+    expect(detail.reason).toMatchObject({ kind: 'prerequisite_failed', prerequisiteKey: 'b' });
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Prerequisite cycle detected, treating the prerequisite as failed',
+      { key: 'b', prerequisite: 'a' }
+    );
+  });
+
+  it('should fail when a prerequisite target is not being served', async () => {
+    const { manager } = createManager([
+      {
+        ...buildFlag('new-checkout'),
+        target: { expired_at: '2020-01-01T00:00:00Z', value: { value: { boolean: true } } },
+      },
+      checkoutV2,
+    ]);
+
+    const detail = await manager
+      .withContext(countryContext('US'))
+      .singleDetailed('new-checkout-v2');
+    expect(detail.reason.kind).toBe('prerequisite_failed');
+  });
+
+  it('should evaluate prerequisites in all()', async () => {
+    const { manager } = createManager([checkout, checkoutV2]);
+
+    const flags = await manager.withContext(countryContext('CA')).all();
+    expect(flags.map((flag) => [flag.getKey(), flag.asBool()])).toEqual([
+      ['new-checkout', false],
+      ['new-checkout-v2', false],
+    ]);
+  });
+
+  it('should round-trip prerequisites through Flag', () => {
+    const flag = Flag.fromObject(checkoutV2);
+
+    expect(flag.getPrerequisites()).toEqual([{ key: 'new-checkout', value: true }]);
+    expect(flag.toJSON().prerequisites).toEqual([{ key: 'new-checkout', value: true }]);
+    expect(Flag.fromObject(checkout).toJSON()).not.toHaveProperty('prerequisites');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { redactContext } from '../src/redaction';
+import { sha256 } from '../src/sha256';
+import { Attribute, Context, MultiContext } from '../src/context';
+
+describe('sha256', () => {
+  it('should match the FIPS 180-4 test vectors', () => {
+    expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(sha256('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')).toBe(
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+    );
+  });
+
+  it('should hash the UTF-8 encoding of the input', () => {
+    expect(sha256('héllo')).toBe(
+      '3c48591d8d098a4538f5e013dfcf406e948eac4d3277b10bf614e295d6068179'
+    );
+  });
+});
+
+describe('redactContext', () => {
+  function createUser(): Context {
+    return new Context('user', 'Jane', 'user-1', [
+      new Attribute('email', ['jane@example.com']),
+      new Attribute('plan', ['pro']),
+      new Attribute('ssn', ['123-45-6789']).setPrivate(),
+    ]);
+  }
+
+  it('should leave contexts without private attributes unchanged', () => {
+    const context = new Context('user', 'Jane', 'user-1', [new Attribute('plan', ['pro'])]);
+
+    expect(redactContext(context.toJSON())).toEqual(context.toJSON());
+  });
+
+  it('should strip attributes marked private', () => {
+    expect(redactContext(createUser().toJSON())).toEqual({
+      type: 'user',
+      name: 'Jane',
+      identifier: 'user-1',
+      attributes: [
+        { key: 'email', values: [{ value: 'jane@example.com' }] },
+        { key: 'plan', values: [{ value: 'pro' }] },
+      ],
+      redacted: ['ssn'],
+    });
+  });
+
+  it('should strip attributes configured as private', () => {
+    const data = redactContext(createUser().toJSON(), { privateAttributes: ['email'] });
+
+    expect(data.attributes).toEqual([{ key: 'plan', values: [{ value: 'pro' }] }]);
+    expect(data.redacted).toEqual(['email', 'ssn']);
+  });
+
+  it('should strip every attribute when all attributes are private', () => {
+    const data = redactContext(createUser().toJSON(), { allAttributesPrivate: true });
+
+    expect(data).toEqual({
+      type: 'user',
+      name: 'Jane',
+      identifier: 'user-1',
+      redacted: ['email', 'plan', 'ssn'],
+    });
+  });
+
+  it('should hash the values of private attributes', () => {
+    const context = new Context('user', undefined, 'user-1', [
+      new Attribute('email', ['jane@example.com', 'j@example.org']).setPrivate(),
+      new Attribute('age', [42]).setPrivate(),
+    ]);
+
+    const data = redactContext(context.toJSON(), { mode: 'hash' });
+
+    expect(data.attributes).toEqual([
+      {
+        key: 'email',
+        values: [{ value: sha256('jane@example.com') }, { value: sha256('j@example.org') }],
+      },
+      { key: 'age', values: [{ value: sha256('42') }] },
+    ]);
+    expect(data.redacted).toEqual(['email', 'age']);
+  });
+
+  it('should redact each context of a multi-context', () => {
+    const context = MultiContext.of(
+      createUser(),
+      new Context('organization', undefined, 'org-1', [
+        new Attribute('email', ['billing@acme.test']),
+      ])
+    );
+
+    const data = redactContext(context.toJSON(), { privateAttributes: ['email'] });
+
+    expect(data).toEqual({
+      type: 'multi',
+      contexts: [
+        {
+          type: 'user',
+          name: 'Jane',
+          identifier: 'user-1',
+          attributes: [{ key: 'plan', values: [{ value: 'pro' }] }],
+          redacted: ['email', 'ssn'],
+        },
+        { type: 'organization', identifier: 'org-1', redacted: ['email'] },
+      ],
+    });
+  });
+
+  it('should not modify the original data', () => {
+    const original = createUser().toJSON();
+    const copy = JSON.parse(JSON.stringify(original));
+
+    redactContext(original, { mode: 'hash', allAttributesPrivate: true });
+
+    expect(original).toEqual(copy);
+  });
+});
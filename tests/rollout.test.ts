@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { crc32b, isInBucket } from '../src/rollout';
+import { crc32b, getBucket, isInBucket, selectVariation } from '../src/rollout';
 
 describe('rollout', () => {
   describe('crc32b', () => {
@@ -284,4 +284,83 @@ describe('rollout', () => {
       });
     });
   });
+
+  describe('getBucket', () => {
+    it('should match the cross-SDK buckets', () => {
+      expect(getBucket('test-salt', 'user-0')).toBe(34);
+      expect(getBucket('test-salt', 'user-2')).toBe(98);
+    });
+
+    it('should return null without an identifier', () => {
+      expect(getBucket('test-salt', null)).toBeNull();
+      expect(getBucket('test-salt', undefined)).toBeNull();
+    });
+  });
+
+  describe('selectVariation', () => {
+    const variations = [
+      { key: 'a', weight: 33 },
+      { key: 'b', weight: 33 },
+      { key: 'c', weight: 34 },
+    ];
+
+    it('should assign variations by consecutive bucket ranges', () => {
+      // Buckets: user-1 => 28, user-0 => 34, user-5 => 53, user-4 => 83, user-2 => 98
+      expect(selectVariation('test-salt', 'user-1', variations)?.key).toBe('a');
+      expect(selectVariation('test-salt', 'user-0', variations)?.key).toBe('b');
+      expect(selectVariation('test-salt', 'user-5', variations)?.key).toBe('b');
+      expect(selectVariation('test-salt', 'user-4', variations)?.key).toBe('c');
+      expect(selectVariation('test-salt', 'user-2', variations)?.key).toBe('c');
+    });
+
+    it('should assign no variation beyond the total weight', () => {
+      const partial = [
+        { key: 'a', weight: 30 },
+        { key: 'b', weight: 30 },
+      ];
+      expect(selectVariation('test-salt', 'user-5', partial)?.key).toBe('b');
+      expect(selectVariation('test-salt', 'user-4', partial)).toBeNull();
+    });
+
+    it('should skip variations with zero weight', () => {
+      const weighted = [
+        { key: 'off', weight: 0 },
+        { key: 'on', weight: 100 },
+      ];
+      expect(selectVariation('test-salt', 'user-1', weighted)?.key).toBe('on');
+    });
+
+    it('should assign no variation without an identifier', () => {
+      expect(selectVariation('test-salt', null, variations)).toBeNull();
+    });
+
+    it('should reject invalid weights', () => {
+      expect(() => selectVariation('s', 'u', [{ key: 'a', weight: -1 }])).toThrow(
+        'Variation weights must not be negative'
+      );
+      expect(() =>
+        selectVariation('s', 'u', [
+          { key: 'a', weight: 60 },
+          { key: 'b', weight: 50 },
+        ])
+      ).toThrow('Variation weights must not add up to more than 100');
+    });
+
+    it('should split identifiers roughly by weight', () => {
+      const counts: Record<string, number> = { a: 0, b: 0, c: 0 };
+      const total = 10000;
+
+      for (let i = 0; i < total; i++) {
+        const variation = selectVariation('split-salt', `user-${i}`, variations);
+        counts[variation!.key]++;
+      }
+
+      expect(counts.a / total).toBeGreaterThan(0.28);
+      expect(counts.a / total).toBeLessThan(0.38);
+      expect(counts.b / total).toBeGreaterThan(0.28);
+      expect(counts.b / total).toBeLessThan(0.38);
+      expect(counts.c / total).toBeGreaterThan(0.29);
+      expect(counts.c / total).toBeLessThan(0.39);
+    });
+  });
 });
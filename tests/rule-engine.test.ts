@@ -1,7 +1,8 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { RuleEngine } from '../src/rule-engine';
-import { Context, Attribute } from '../src/context';
-import type { Rule } from '../src/types';
+import { Context, MultiContext, Attribute } from '../src/context';
+import type { AttributeValue, Rule, RuleCondition } from '../src/types';
+import { createMockLogger } from './helpers';
 
 describe('RuleEngine', () => {
   const engine = new RuleEngine();
@@ -48,6 +49,31 @@ describe('RuleEngine', () => {
     });
   });
 
+  describe('findMatchIndex', () => {
+    it('should return the position of the first matching rule', () => {
+      const rules: Rule[] = [
+        {
+          clauses: [{ attribute: 'country', operator: 'equals', value: 'CA' }],
+          value: { value: { boolean: false } },
+        },
+        {
+          clauses: [{ attribute: 'country', operator: 'equals', value: 'US' }],
+          value: { value: { boolean: true } },
+        },
+      ];
+
+      const context = new Context('user');
+      context.addAttribute(new Attribute('country', ['US']));
+
+      expect(engine.findMatchIndex(rules, context)).toBe(1);
+    });
+
+    it('should return -1 when no rules match', () => {
+      const context = new Context('user');
+      expect(engine.findMatchIndex([], context)).toBe(-1);
+    });
+  });
+
   describe('equals operator', () => {
     it('should match equal values', () => {
       const rules: Rule[] = [
@@ -242,6 +268,369 @@ describe('RuleEngine', () => {
     });
   });
 
+  describe('semver operators', () => {
+    function matches(operator: string, value: string, version: string): boolean {
+      const rules: Rule[] = [
+        {
+          clauses: [{ attribute: 'app_version', operator, value }],
+          value: { value: { boolean: true } },
+        },
+      ];
+
+      const context = new Context('user');
+      context.addAttribute(new Attribute('app_version', [version]));
+
+      return engine.evaluate(rules, context) !== null;
+    }
+
+    it('should compare versions numerically rather than as decimals', () => {
+      expect(matches('semver_gt', '1.9.0', '1.10.0')).toBe(true);
+      expect(matches('gt', '1.9', '1.10')).toBe(false);
+    });
+
+    it('should match semver_eq ignoring build metadata', () => {
+      expect(matches('semver_eq', '1.2.3', '1.2.3+build.42')).toBe(true);
+      expect(matches('semver_eq', '1.2.3', 'v1.2.3')).toBe(true);
+      expect(matches('semver_eq', '1.2', '1.2.0')).toBe(true);
+      expect(matches('semver_eq', '1.2.3', '1.2.4')).toBe(false);
+    });
+
+    it('should match semver_gt and semver_gte', () => {
+      expect(matches('semver_gt', '2.0.0', '2.0.1')).toBe(true);
+      expect(matches('semver_gt', '2.0.0', '2.0.0')).toBe(false);
+      expect(matches('semver_gte', '2.0.0', '2.0.0')).toBe(true);
+      expect(matches('semver_gte', '2.0.0', '1.99.99')).toBe(false);
+    });
+
+    it('should match semver_lt and semver_lte', () => {
+      expect(matches('semver_lt', '2.0.0', '1.99.0')).toBe(true);
+      expect(matches('semver_lt', '2.0.0', '2.0.0')).toBe(false);
+      expect(matches('semver_lte', '2.0.0', '2.0.0')).toBe(true);
+      expect(matches('semver_lte', '2.0.0', '2.0.1')).toBe(false);
+    });
+
+    it('should rank pre-releases below their release', () => {
+      expect(matches('semver_lt', '2.0.0', '2.0.0-rc.1')).toBe(true);
+      expect(matches('semver_gt', '2.0.0-beta.2', '2.0.0-beta.11')).toBe(true);
+      expect(matches('semver_gt', '2.0.0-alpha', '2.0.0-beta')).toBe(true);
+    });
+
+    it('should match semver_range and not_semver_range', () => {
+      expect(matches('semver_range', '^1.2.0', '1.9.3')).toBe(true);
+      expect(matches('semver_range', '^1.2.0', '2.0.0')).toBe(false);
+      expect(matches('semver_range', '>=1.2.0 <1.5.0 || 2.x', '2.4.0')).toBe(true);
+      expect(matches('not_semver_range', '~1.2.0', '1.3.0')).toBe(true);
+      expect(matches('not_semver_range', '~1.2.0', '1.2.9')).toBe(false);
+    });
+
+    it('should not match invalid versions', () => {
+      expect(matches('semver_gt', '1.0.0', 'latest')).toBe(false);
+      expect(matches('semver_gt', 'not-a-version', '1.0.0')).toBe(false);
+      expect(matches('semver_range', '>>1.0', '1.0.0')).toBe(false);
+    });
+  });
+
+  describe('regex operators', () => {
+    function rule(operator: string, value: string): Rule[] {
+      return [
+        {
+          clauses: [{ attribute: 'email', operator, value }],
+          value: { value: { boolean: true } },
+        },
+      ];
+    }
+
+    function user(email: string): Context {
+      const context = new Context('user');
+      context.addAttribute(new Attribute('email', [email]));
+      return context;
+    }
+
+    it('should match matches and not_matches', () => {
+      const matches = rule('matches', '@(example|acme)\\.com$');
+      const notMatches = rule('not_matches', '@(example|acme)\\.com$');
+
+      expect(engine.evaluate(matches, user('jane@acme.com'))).toBe(matches[0]);
+      expect(engine.evaluate(matches, user('jane@acme.co'))).toBeNull();
+      expect(engine.evaluate(notMatches, user('jane@acme.co'))).toBe(notMatches[0]);
+      expect(engine.evaluate(notMatches, user('jane@acme.com'))).toBeNull();
+    });
+
+    it('should support literal patterns with flags', () => {
+      const rules = rule('matches', '/^JANE@/i');
+
+      expect(engine.evaluate(rules, user('jane@acme.com'))).toBe(rules[0]);
+    });
+
+    it('should treat invalid patterns as no match and log a warning once', () => {
+      const logger = createMockLogger();
+      const ruleEngine = new RuleEngine({ logger });
+      const matches = rule('matches', '([a-z');
+      const notMatches = rule('not_matches', '([a-z');
+
+      expect(ruleEngine.evaluate(matches, user('jane@acme.com'))).toBeNull();
+      expect(ruleEngine.evaluate(matches, user('jane@acme.com'))).toBeNull();
+      expect(ruleEngine.evaluate(notMatches, user('jane@acme.com'))).toBeNull();
+      expect(logger.warn).toHaveBeenCalledTimes(2);
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Invalid regular expression in rule, treating it as no match',
+        expect.objectContaining({ pattern: '([a-z' })
+      );
+    });
+
+    it('should reject patterns prone to catastrophic backtracking', () => {
+      const logger = createMockLogger();
+      const ruleEngine = new RuleEngine({ logger });
+      const rules = rule('matches', '^(a+)+$');
+
+      expect(ruleEngine.evaluate(rules, user('a'.repeat(40) + '!'))).toBeNull();
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Invalid regular expression in rule, treating it as no match',
+        expect.objectContaining({ error: expect.stringContaining('nested quantifiers') })
+      );
+    });
+
+    it('should reject quantifiers in a row that can match the same input', () => {
+      const logger = createMockLogger();
+      const ruleEngine = new RuleEngine({ logger });
+      const rules = rule('matches', '^a*a*a*a*b$');
+
+      expect(ruleEngine.evaluate(rules, user('a'.repeat(1000)))).toBeNull();
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Invalid regular expression in rule, treating it as no match',
+        expect.objectContaining({ error: expect.stringContaining('quantifiers in a row') })
+      );
+    });
+
+    it('should not match attribute values over the input length limit', () => {
+      const ruleEngine = new RuleEngine({ regexMaxInputLength: 10 });
+      const rules = rule('matches', 'a');
+
+      expect(ruleEngine.evaluate(rules, user('a'.repeat(10)))).toBe(rules[0]);
+      expect(ruleEngine.evaluate(rules, user('a'.repeat(11)))).toBeNull();
+    });
+
+    it('should disable patterns that exceed the time limit', () => {
+      const logger = createMockLogger();
+      const ruleEngine = new RuleEngine({ logger, regexTimeLimit: 5 });
+      const rules = rule('matches', 'acme');
+      const now = vi.spyOn(Date, 'now');
+
+      now.mockReturnValueOnce(0).mockReturnValueOnce(10);
+      expect(ruleEngine.evaluate(rules, user('jane@acme.com'))).toBe(rules[0]);
+      now.mockRestore();
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Regular expression in rule is too slow, disabling it',
+        { pattern: 'acme' }
+      );
+      expect(ruleEngine.evaluate(rules, user('jane@acme.com'))).toBeNull();
+    });
+  });
+
+  describe('date operators', () => {
+    const now = Date.UTC(2026, 2, 1);
+    const clockEngine = new RuleEngine({ clock: () => now });
+
+    function matches(
+      operator: string,
+      value: string | string[],
+      date: string,
+      ruleEngine: RuleEngine = clockEngine
+    ): boolean {
+      const rules: Rule[] = [
+        {
+          clauses: [{ attribute: 'signed_up_at', operator, value }],
+          value: { value: { boolean: true } },
+        },
+      ];
+
+      const context = new Context('user');
+      context.addAttribute(new Attribute('signed_up_at', [date]));
+
+      return ruleEngine.evaluate(rules, context) !== null;
+    }
+
+    it('should match before and after', () => {
+      expect(matches('before', '2026-01-01', '2025-12-31T23:59:59Z')).toBe(true);
+      expect(matches('before', '2026-01-01', '2026-01-01')).toBe(false);
+      expect(matches('after', '2026-01-01', '2026-01-01T00:00:01Z')).toBe(true);
+      expect(matches('after', '2026-01-01', '2025-06-01')).toBe(false);
+    });
+
+    it('should compare ISO-8601 and epoch values', () => {
+      const epochSeconds = String(Date.UTC(2025, 5, 1) / 1000);
+
+      expect(matches('before', '2026-01-01', epochSeconds)).toBe(true);
+      expect(matches('after', epochSeconds, '2026-01-01')).toBe(true);
+    });
+
+    it('should match between (inclusive)', () => {
+      const range = ['2026-01-01', '2026-01-31T23:59:59Z'];
+
+      expect(matches('between', range, '2026-01-01')).toBe(true);
+      expect(matches('between', range, '2026-01-15T08:00:00Z')).toBe(true);
+      expect(matches('between', range, '2026-02-01')).toBe(false);
+      expect(matches('between', '2026-01-01', '2026-01-01')).toBe(false);
+    });
+
+    it('should match older_than and newer_than relative to the clock', () => {
+      expect(matches('older_than', '30 days', '2026-01-15')).toBe(true);
+      expect(matches('older_than', '30d', '2026-02-15')).toBe(false);
+      expect(matches('newer_than', '30d', '2026-02-15')).toBe(true);
+      expect(matches('newer_than', 'P30D', '2026-01-15')).toBe(false);
+      // Future dates are not newer than a duration
+      expect(matches('newer_than', '30d', '2026-03-05')).toBe(false);
+    });
+
+    it('should default to the system clock', () => {
+      const yesterday = new Date(Date.now() - 86400000).toISOString();
+
+      expect(matches('newer_than', '2 days', yesterday, engine)).toBe(true);
+      expect(matches('older_than', '2 days', yesterday, engine)).toBe(false);
+    });
+
+    it('should not match invalid dates or durations', () => {
+      expect(matches('before', '2026-01-01', 'last week')).toBe(false);
+      expect(matches('before', 'soon', '2025-01-01')).toBe(false);
+      expect(matches('older_than', 'a while', '2025-01-01')).toBe(false);
+    });
+  });
+
+  describe('case-insensitive and normalized string operators', () => {
+    function matches(
+      operator: string,
+      value: string | string[],
+      actual: string,
+      ignoreCase?: boolean
+    ): boolean {
+      const rules: Rule[] = [
+        {
+          clauses: [{ attribute: 'email', operator, value, ignore_case: ignoreCase }],
+          value: { value: { boolean: true } },
+        },
+      ];
+
+      const context = new Context('user');
+      context.addAttribute(new Attribute('email', [actual]));
+
+      return engine.evaluate(rules, context) !== null;
+    }
+
+    it('should stay case-sensitive by default', () => {
+      expect(matches('equals', 'user@example.com', 'User@Example.com')).toBe(false);
+    });
+
+    it('should ignore case when the clause asks for it', () => {
+      expect(matches('equals', 'user@example.com', 'User@Example.com', true)).toBe(true);
+      expect(matches('not_equals', 'user@example.com', 'User@Example.com', true)).toBe(false);
+      expect(matches('contains', 'EXAMPLE', 'User@Example.com', true)).toBe(true);
+      expect(matches('in', ['us', 'ca'], 'US', true)).toBe(true);
+      expect(matches('not_in', ['us', 'ca'], 'US', true)).toBe(false);
+      expect(matches('starts_with', 'USER@', 'user@example.com', true)).toBe(true);
+      expect(matches('ends_with', '@EXAMPLE.COM', 'user@example.com', true)).toBe(true);
+    });
+
+    it('should fold case beyond ASCII', () => {
+      expect(matches('equals', 'STRASSE', 'straße', true)).toBe(true);
+      expect(matches('equals', 'ÉCOLE', 'école', true)).toBe(true);
+    });
+
+    it('should match canonically equivalent Unicode strings', () => {
+      const composed = 'caf\u00e9';
+      const decomposed = 'cafe\u0301';
+
+      expect(matches('equals', composed, decomposed)).toBe(true);
+      expect(matches('ends_with', '\u00e9', decomposed)).toBe(true);
+    });
+
+    it('should ignore case for context targets', () => {
+      const rules: Rule[] = [
+        {
+          clauses: [
+            { attribute: 'context', operator: 'equals', value: 'USER-123', ignore_case: true },
+          ],
+          value: { value: { boolean: true } },
+        },
+      ];
+
+      expect(engine.evaluate(rules, Context.single('user', 'user-123'))).toBe(rules[0]);
+    });
+  });
+
+  describe('multi-value semantics', () => {
+    function matches(operator: string, value: string | string[], actual: string[]): boolean {
+      const rules: Rule[] = [
+        {
+          clauses: [{ attribute: 'tags', operator, value }],
+          value: { value: { boolean: true } },
+        },
+      ];
+
+      const context = new Context('user');
+      context.addAttribute(new Attribute('tags', actual));
+
+      return engine.evaluate(rules, context) !== null;
+    }
+
+    it('should match any clause value for positive operators', () => {
+      expect(matches('equals', ['gold', 'silver'], ['silver'])).toBe(true);
+      expect(matches('contains', ['@acme.', '@example.'], ['jane@example.com'])).toBe(true);
+      expect(matches('starts_with', ['en-', 'fr-'], ['fr-CA'])).toBe(true);
+      expect(matches('ends_with', ['.io', '.dev'], ['app.dev'])).toBe(true);
+      expect(matches('gt', ['100', '10'], ['50'])).toBe(true);
+      expect(matches('semver_gte', ['3.0.0', '2.1.0'], ['2.5.0'])).toBe(true);
+      expect(matches('matches', ['^a', '^b'], ['beta'])).toBe(true);
+      expect(matches('before', ['2020-01-01', '2030-01-01'], ['2026-01-01'])).toBe(true);
+      expect(matches('equals', ['gold', 'silver'], ['bronze'])).toBe(false);
+    });
+
+    it('should match no clause value for negated operators', () => {
+      expect(matches('not_equals', ['gold', 'silver'], ['bronze'])).toBe(true);
+      expect(matches('not_equals', ['gold', 'silver'], ['silver'])).toBe(false);
+      expect(matches('not_contains', ['@acme.', '@example.'], ['jane@example.com'])).toBe(false);
+      expect(matches('not_matches', ['^a', '^b'], ['gamma'])).toBe(true);
+    });
+
+    it('should match any attribute value', () => {
+      expect(matches('equals', 'beta', ['alpha', 'beta'])).toBe(true);
+      expect(matches('not_equals', 'beta', ['alpha', 'beta'])).toBe(false);
+    });
+
+    it('should match contains_any when the attribute has any clause value', () => {
+      expect(matches('contains_any', ['beta', 'staff'], ['customer', 'staff'])).toBe(true);
+      expect(matches('contains_any', ['beta', 'staff'], ['customer'])).toBe(false);
+    });
+
+    it('should match contains_all when the attribute has every clause value', () => {
+      expect(matches('contains_all', ['beta', 'staff'], ['staff', 'beta', 'admin'])).toBe(true);
+      expect(matches('contains_all', ['beta', 'staff'], ['staff'])).toBe(false);
+      expect(matches('contains_all', 'beta', ['beta'])).toBe(true);
+      expect(matches('contains_all', [], ['beta'])).toBe(false);
+    });
+
+    it('should honour ignore_case for contains_all', () => {
+      const rules: Rule[] = [
+        {
+          clauses: [
+            {
+              attribute: 'tags',
+              operator: 'contains_all',
+              value: ['Beta', 'STAFF'],
+              ignore_case: true,
+            },
+          ],
+          value: { value: { boolean: true } },
+        },
+      ];
+
+      const context = new Context('user');
+      context.addAttribute(new Attribute('tags', ['beta', 'staff']));
+
+      expect(engine.evaluate(rules, context)).toBe(rules[0]);
+    });
+  });
+
   describe('multiple clauses', () => {
     it('should require all clauses to match (AND logic)', () => {
       const rules: Rule[] = [
@@ -274,6 +663,81 @@ describe('RuleEngine', () => {
     });
   });
 
+  describe('condition groups', () => {
+    const eu = { attribute: 'country', operator: 'in', value: ['DE', 'FR', 'NL'] };
+    const pro = { attribute: 'plan', operator: 'equals', value: 'pro' };
+    const beta = { attribute: 'beta_tester', operator: 'equals', value: 'true' };
+
+    function user(attributes: Record<string, string>): Context {
+      const context = new Context('user');
+      for (const [key, value] of Object.entries(attributes)) {
+        context.addAttribute(new Attribute(key, [value]));
+      }
+      return context;
+    }
+
+    it('should support nested any/all groups', () => {
+      // (country in EU AND plan = pro) OR beta_tester = true
+      const rules: Rule[] = [
+        {
+          any: [{ all: [eu, pro] }, beta],
+          value: { value: { boolean: true } },
+        },
+      ];
+
+      expect(engine.evaluate(rules, user({ country: 'DE', plan: 'pro' }))).toBe(rules[0]);
+      expect(engine.evaluate(rules, user({ country: 'US', beta_tester: 'true' }))).toBe(rules[0]);
+      expect(engine.evaluate(rules, user({ country: 'DE', plan: 'free' }))).toBeNull();
+      expect(engine.evaluate(rules, user({ country: 'US', plan: 'pro' }))).toBeNull();
+    });
+
+    it('should support not groups', () => {
+      const rules: Rule[] = [
+        {
+          not: { any: [eu, beta] },
+          value: { value: { boolean: true } },
+        },
+      ];
+
+      expect(engine.evaluate(rules, user({ country: 'US' }))).toBe(rules[0]);
+      expect(engine.evaluate(rules, user({ country: 'FR' }))).toBeNull();
+      expect(engine.evaluate(rules, user({ beta_tester: 'true' }))).toBeNull();
+    });
+
+    it('should combine groups with clauses using AND', () => {
+      const rules: Rule[] = [
+        {
+          clauses: [pro],
+          any: [eu, beta],
+          value: { value: { boolean: true } },
+        },
+      ];
+
+      expect(engine.evaluate(rules, user({ plan: 'pro', country: 'NL' }))).toBe(rules[0]);
+      expect(engine.evaluate(rules, user({ plan: 'free', country: 'NL' }))).toBeNull();
+      expect(engine.evaluate(rules, user({ plan: 'pro', country: 'US' }))).toBeNull();
+    });
+
+    it('should treat empty groups as all = true and any = false', () => {
+      const context = user({ country: 'US' });
+
+      expect(
+        engine.evaluate([{ all: [], value: { value: { boolean: true } } }], context)
+      ).not.toBeNull();
+      expect(
+        engine.evaluate([{ any: [], value: { value: { boolean: true } } }], context)
+      ).toBeNull();
+    });
+
+    it('should not match unrecognised conditions', () => {
+      const rules = [
+        { any: [{ unknown: true }], value: { value: { boolean: true } } },
+      ] as unknown as Rule[];
+
+      expect(engine.evaluate(rules, user({ country: 'US' }))).toBeNull();
+    });
+  });
+
   describe('missing attributes', () => {
     it('should not match when attribute is missing', () => {
       const rules: Rule[] = [
@@ -370,4 +834,129 @@ describe('RuleEngine', () => {
       expect(result).toBe(rules[0]);
     });
   });
+
+  describe('multi-contexts', () => {
+    const context = MultiContext.of(
+      new Context('user', undefined, 'user-1', [new Attribute('plan', ['pro'])]),
+      new Context('organization', undefined, 'org-1', [new Attribute('plan', ['enterprise'])]),
+      new Context('device', undefined, 'device-1', [new Attribute('os', ['iOS'])])
+    );
+
+    function rule(...clauses: RuleCondition[]): Rule[] {
+      return [{ clauses, value: { value: { boolean: true } } }];
+    }
+
+    it('should match context targets by type', () => {
+      const target = (type: string, identifier: string) =>
+        rule({ attribute: 'context', operator: 'equals', value: { identifier, type } });
+
+      expect(engine.evaluate(target('organization', 'org-1'), context)).not.toBeNull();
+      expect(engine.evaluate(target('user', 'org-1'), context)).toBeNull();
+    });
+
+    it('should require negated context clauses to hold for every targeted context', () => {
+      const notIn = (identifier: string) =>
+        rule({ attribute: 'context', operator: 'not_in', value: [{ identifier, type: 'user' }] });
+
+      expect(engine.evaluate(notIn('user-2'), context)).not.toBeNull();
+      expect(engine.evaluate(notIn('user-1'), context)).toBeNull();
+    });
+
+    it('should target users in an organization on a platform', () => {
+      const rules = rule(
+        {
+          attribute: 'context',
+          operator: 'in',
+          value: [{ identifier: 'org-1', type: 'organization' }],
+        },
+        { attribute: 'os', operator: 'equals', value: 'iOS', context_kind: 'device' }
+      );
+
+      expect(engine.evaluate(rules, context)).not.toBeNull();
+    });
+
+    it('should scope attribute clauses to a context kind', () => {
+      const plan = (value: string, kind?: string) =>
+        rule({ attribute: 'plan', operator: 'equals', value, context_kind: kind });
+
+      expect(engine.evaluate(plan('enterprise', 'organization'), context)).not.toBeNull();
+      expect(engine.evaluate(plan('enterprise', 'user'), context)).toBeNull();
+      expect(engine.evaluate(plan('enterprise', 'session'), context)).toBeNull();
+      // Unscoped clauses see the values of every context
+      expect(engine.evaluate(plan('enterprise'), context)).not.toBeNull();
+    });
+
+    it('should scope attribute clauses on single contexts', () => {
+      const single = new Context('user', undefined, 'user-1', [new Attribute('plan', ['pro'])]);
+      const plan = (kind: string) =>
+        rule({ attribute: 'plan', operator: 'equals', value: 'pro', context_kind: kind });
+
+      expect(engine.evaluate(plan('user'), single)).not.toBeNull();
+      expect(engine.evaluate(plan('organization'), single)).toBeNull();
+    });
+  });
+
+  describe('typed attribute values', () => {
+    function matches(
+      operator: string,
+      value: string | string[],
+      values: AttributeValue[]
+    ): boolean {
+      const context = new Context('user', undefined, 'user-1', [new Attribute('attr', values)]);
+      const rules: Rule[] = [
+        {
+          clauses: [{ attribute: 'attr', operator, value }],
+          value: { value: { boolean: true } },
+        },
+      ];
+      return engine.evaluate(rules, context) !== null;
+    }
+
+    it('should compare numbers numerically', () => {
+      expect(matches('equals', '1.0', [1])).toBe(true);
+      expect(matches('equals', '1.0', ['1'])).toBe(false);
+      expect(matches('in', ['2', '3'], [3])).toBe(true);
+      expect(matches('not_equals', '', [0])).toBe(true);
+      expect(matches('gt', '9', [10])).toBe(true);
+      expect(matches('lte', '10', [10])).toBe(true);
+    });
+
+    it('should compare booleans natively', () => {
+      expect(matches('equals', 'true', [true])).toBe(true);
+      expect(matches('equals', 'TRUE', [true])).toBe(true);
+      expect(matches('equals', 'false', [true])).toBe(false);
+      expect(matches('equals', '1', [true])).toBe(false);
+      expect(matches('not_equals', 'true', [false])).toBe(true);
+      expect(matches('gt', '0', [true])).toBe(false);
+    });
+
+    it('should compare dates as instants', () => {
+      const date = new Date('2026-03-01T12:00:00Z');
+
+      expect(matches('equals', '2026-03-01T13:00:00+01:00', [date])).toBe(true);
+      expect(matches('before', '2026-03-02', [date])).toBe(true);
+      expect(matches('after', '2026-03-02', [date])).toBe(false);
+      expect(matches('between', ['2026-02-01', '2026-04-01'], [date])).toBe(true);
+      expect(matches('gt', '0', [date])).toBe(false);
+      expect(matches('before', '2026-03-02', [new Date(NaN)])).toBe(false);
+    });
+
+    it('should match string lists with any-of semantics', () => {
+      expect(matches('contains_all', ['a', 'b'], ['b', 'c', 'a'])).toBe(true);
+      expect(matches('contains_all', ['1', '2'], [1, 2.0])).toBe(true);
+      expect(matches('contains_any', ['x', 'c'], ['b', 'c'])).toBe(true);
+    });
+
+    it('should use the string form of typed values for string operators', () => {
+      expect(matches('starts_with', '4', [42])).toBe(true);
+      expect(matches('matches', '^2026-03', [new Date('2026-03-01T00:00:00Z')])).toBe(true);
+      expect(matches('semver_gte', '1.0.0', [2])).toBe(true);
+    });
+
+    it('should keep comparing string attributes as before', () => {
+      expect(matches('gt', '9', ['10'])).toBe(true);
+      expect(matches('equals', 'true', ['true'])).toBe(true);
+      expect(matches('before', '2026-03-02', ['2026-03-01'])).toBe(true);
+    });
+  });
 });
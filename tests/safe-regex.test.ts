@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compilePattern,
+  hasNestedQuantifier,
+  hasOverlappingAlternation,
+  hasOverlappingQuantifiers,
+  MAX_PATTERN_LENGTH,
+} from '../src/safe-regex';
+
+describe('compilePattern', () => {
+  it('should compile plain patterns', () => {
+    const regex = compilePattern('@example\\.com$');
+
+    expect(regex.test('jane@example.com')).toBe(true);
+    expect(regex.flags).toBe('');
+  });
+
+  it('should compile literal patterns with flags', () => {
+    const regex = compilePattern('/^mozilla/i');
+
+    expect(regex.source).toBe('^mozilla');
+    expect(regex.test('Mozilla/5.0')).toBe(true);
+  });
+
+  it('should reject stateful flags', () => {
+    expect(() => compilePattern('/a/g')).toThrow('Unsupported regular expression flags: g');
+  });
+
+  it('should reject overly long patterns', () => {
+    expect(() => compilePattern('a'.repeat(MAX_PATTERN_LENGTH + 1))).toThrow(SyntaxError);
+  });
+
+  it('should reject repeated overlapping alternatives', () => {
+    expect(() => compilePattern('^(a|a)*$')).toThrow(
+      'Pattern repeats alternatives that can match the same input and may backtrack catastrophically'
+    );
+  });
+
+  it('should reject overlapping quantifiers in a row', () => {
+    expect(() => compilePattern('^a*a*a*a*b$')).toThrow(
+      'Pattern has quantifiers in a row that can match the same input and may backtrack catastrophically'
+    );
+  });
+
+  it('should reject invalid syntax', () => {
+    expect(() => compilePattern('([a-z')).toThrow(SyntaxError);
+  });
+});
+
+describe('hasNestedQuantifier', () => {
+  it.each(['(a+)+', '(a*)*', '^(\\w+\\s?)*$', '((ab)+c)*', '(x+){2,}', '(?:a{1,})+'])(
+    'should flag %s',
+    (pattern) => {
+      expect(hasNestedQuantifier(pattern)).toBe(true);
+    }
+  );
+
+  it.each([
+    '(ab)+',
+    '(a+)?',
+    'a+b*',
+    '[(a+)]+',
+    '\\(a+\\)+',
+    '(a{2})+',
+    '^[a-z]+@(example|acme)\\.com$',
+  ])('should allow %s', (pattern) => {
+    expect(hasNestedQuantifier(pattern)).toBe(false);
+  });
+});
+
+describe('hasOverlappingAlternation', () => {
+  it.each([
+    '^(a|a)*$',
+    '(a|ab)+',
+    '(?:\\w|_)+',
+    '(.|x)*',
+    '(a|)+',
+    '(|a)*',
+    '((a|a))*',
+    '(?<word>A|a)+',
+    '([a-z]|b){2,}',
+  ])('should flag %s', (pattern) => {
+    expect(hasOverlappingAlternation(pattern)).toBe(true);
+  });
+
+  it.each(['(a|b)*', '(?:foo|bar)+', '^[a-z]+@(example|acme)\\.com$', '(a|a)', '(a|a)?', 'a|a'])(
+    'should allow %s',
+    (pattern) => {
+      expect(hasOverlappingAlternation(pattern)).toBe(false);
+    }
+  );
+});
+
+describe('hasOverlappingQuantifiers', () => {
+  it.each([
+    '^a*a*a*a*b$',
+    '\\s*\\s*\\s*$',
+    'a+a+',
+    '\\w+\\d*',
+    '.*.*',
+    'a*b*a*',
+    '.*a.*b.*',
+    '(a)*a*',
+    '[a-z]+[a-c]+',
+  ])('should flag %s', (pattern) => {
+    expect(hasOverlappingQuantifiers(pattern)).toBe(true);
+  });
+
+  it.each([
+    '[a-z]+[0-9]+',
+    '^\\d+\\.\\d+\\.\\d+$',
+    '^[a-z0-9._%+-]+@[a-z0-9.-]+\\.[a-z]{2,}$',
+    '^Mozilla/5\\.0 .*Chrome/\\d+',
+    '\\d{1,3}\\.\\d{1,3}',
+    '(a|b)*c+',
+    'a+b*',
+  ])('should allow %s', (pattern) => {
+    expect(hasOverlappingQuantifiers(pattern)).toBe(false);
+  });
+
+  it('should honour the ignore case flag', () => {
+    expect(hasOverlappingQuantifiers('a+A+')).toBe(false);
+    expect(hasOverlappingQuantifiers('a+A+', 'i')).toBe(true);
+  });
+});
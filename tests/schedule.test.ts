@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import { getTargetWindow } from '../src/schedule';
+import { FlagManager } from '../src/flag-manager';
+import { Context } from '../src/context';
+import { RuleEngine } from '../src/rule-engine';
+import { DefaultsCollection } from '../src/defaults-collection';
+import type { FlagData, FlagTarget } from '../src/types';
+import { buildFlag, createMockApiClient, createMockCache, createMockLogger } from './helpers';
+
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+
+function buildTarget(overrides: Partial<FlagTarget> = {}, value = true): FlagTarget {
+  return {
+    version: 'tar_test',
+    expired_at: null,
+    published_at: null,
+    scheduled_at: null,
+    value: { version: 'val_test', value: { boolean: value } },
+    ...overrides,
+  };
+}
+
+function scheduledFlag(target: FlagTarget, overrides: Partial<FlagData> = {}): FlagData {
+  return buildFlag('scheduled-flag', true, { name: 'Scheduled Flag', target, ...overrides });
+}
+
+function createManager(flags: FlagData[], clock = () => NOW) {
+  const logger = createMockLogger();
+  const manager = new FlagManager(
+    createMockApiClient(),
+    createMockCache(flags),
+    new RuleEngine(),
+    3600,
+    logger,
+    { clock, usageReporting: false }
+  );
+
+  return { manager, logger };
+}
+
+describe('getTargetWindow', () => {
+  it('should return undefined for a target without timestamps', () => {
+    expect(getTargetWindow(buildTarget(), NOW)).toBeUndefined();
+  });
+
+  it('should ignore unparseable timestamps', () => {
+    expect(getTargetWindow(buildTarget({ scheduled_at: 'soon' }), NOW)).toBeUndefined();
+  });
+
+  it('should be scheduled before scheduled_at', () => {
+    const target = buildTarget({ scheduled_at: '2026-03-02T00:00:00Z' });
+    expect(getTargetWindow(target, NOW)).toBe('scheduled');
+  });
+
+  it('should be scheduled before a future published_at', () => {
+    const target = buildTarget({ published_at: '2026-03-01T12:00:01Z' });
+    expect(getTargetWindow(target, NOW)).toBe('scheduled');
+  });
+
+  it('should be active from scheduled_at until expired_at', () => {
+    const target = buildTarget({
+      scheduled_at: '2026-03-01T12:00:00Z',
+      expired_at: '2026-03-01T12:00:01Z',
+    });
+    expect(getTargetWindow(target, NOW)).toBe('active');
+  });
+
+  it('should be expired from expired_at on', () => {
+    const target = buildTarget({
+      published_at: '2026-02-01T00:00:00Z',
+      expired_at: '2026-03-01T12:00:00Z',
+    });
+    expect(getTargetWindow(target, NOW)).toBe('expired');
+  });
+});
+
+describe('FlagManager target scheduling', () => {
+  it('should serve an active target and report its window', async () => {
+    const { manager } = createManager([
+      scheduledFlag(buildTarget({ published_at: '2026-02-20T00:00:00Z' })),
+    ]);
+
+    const detail = await manager.singleDetailed('scheduled-flag');
+    expect(detail.flag.asBool()).toBe(true);
+    expect(detail.reason).toMatchObject({ kind: 'target', window: 'active' });
+  });
+
+  it('should not report a window for targets without timestamps', async () => {
+    const { manager } = createManager([scheduledFlag(buildTarget())]);
+
+    const detail = await manager.singleDetailed('scheduled-flag');
+    expect(detail.reason.window).toBeUndefined();
+  });
+
+  it('should serve the inline default before scheduled_at', async () => {
+    const { manager } = createManager([
+      scheduledFlag(buildTarget({ scheduled_at: '2026-03-02T00:00:00Z' })),
+    ]);
+
+    const detail = await manager.singleDetailed('scheduled-flag', false);
+    expect(detail.flag.asBool()).toBe(false);
+    expect(detail.reason).toMatchObject({ kind: 'inline_default', window: 'scheduled' });
+  });
+
+  it('should serve the DefaultsCollection value after expired_at', async () => {
+    const { manager } = createManager([
+      scheduledFlag(buildTarget({ expired_at: '2026-03-01T00:00:00Z' })),
+    ]);
+
+    const detail = await manager
+      .withDefaults(DefaultsCollection.fromObject({ 'scheduled-flag': false }))
+      .singleDetailed('scheduled-flag');
+    expect(detail.flag.asBool()).toBe(false);
+    expect(detail.reason).toMatchObject({ kind: 'defaults_collection', window: 'expired' });
+  });
+
+  it('should throw when an inactive flag has no default', async () => {
+    const { manager } = createManager([
+      scheduledFlag(buildTarget({ expired_at: '2026-03-01T00:00:00Z' })),
+    ]);
+
+    await expect(manager.single('scheduled-flag')).rejects.toThrow(
+      'Flag scheduled-flag is expired and has no default value'
+    );
+  });
+
+  it('should return the typed default without warning when the target is inactive', async () => {
+    const { manager, logger } = createManager([
+      scheduledFlag(buildTarget({ scheduled_at: '2026-03-02T00:00:00Z' })),
+    ]);
+
+    await expect(manager.boolValue('scheduled-flag', false)).resolves.toBe(false);
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  it('should follow the clock across the window', async () => {
+    let now = NOW;
+    const { manager } = createManager(
+      [
+        scheduledFlag(
+          buildTarget({
+            scheduled_at: '2026-03-02T00:00:00Z',
+            expired_at: '2026-03-03T00:00:00Z',
+          })
+        ),
+      ],
+      () => now
+    );
+
+    await expect(manager.boolValue('scheduled-flag', false)).resolves.toBe(false);
+
+    now = Date.parse('2026-03-02T00:00:00Z');
+    await expect(manager.boolValue('scheduled-flag', false)).resolves.toBe(true);
+
+    now = Date.parse('2026-03-03T00:00:00Z');
+    await expect(manager.boolValue('scheduled-flag', false)).resolves.toBe(false);
+  });
+
+  it('should fall back to the flag target when the rollout target is not active', async () => {
+    const { manager } = createManager([
+      scheduledFlag(buildTarget({}, false), {
+        rollout: {
+          target: buildTarget({ scheduled_at: '2026-03-02T00:00:00Z' }),
+          rules: [],
+          percentage: 100,
+          salt: 'test-salt',
+          status: 'active',
+        },
+      }),
+    ]);
+
+    const detail = await manager
+      .withContext(Context.single('user', 'user-0'))
+      .singleDetailed('scheduled-flag');
+    expect(detail.flag.asBool()).toBe(false);
+    expect(detail.reason.inRollout).toBe(false);
+  });
+
+  it('should leave inactive flags out of all()', async () => {
+    const { manager } = createManager([
+      scheduledFlag(buildTarget(), { key: 'live' }),
+      scheduledFlag(buildTarget({ expired_at: '2026-02-01T00:00:00Z' }), { key: 'retired' }),
+    ]);
+
+    const flags = await manager.all();
+    expect(flags.map((flag) => flag.getKey())).toEqual(['live']);
+  });
+});
@@ -0,0 +1,278 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RuleEngine } from '../src/rule-engine';
+import { SegmentSet } from '../src/segments';
+import { FlagManager } from '../src/flag-manager';
+import { Context, Attribute } from '../src/context';
+import type { FlagData, Logger, Rule, RulesResponse, SegmentData } from '../src/types';
+import type { Cache } from '../src/cache';
+import { createMockApiClient, createMockLogger } from './helpers';
+
+function segmentRule(operator: string, value: string | string[]): Rule {
+  return {
+    clauses: [{ attribute: 'segment', operator, value }],
+    value: { value: { boolean: true } },
+  };
+}
+
+function userContext(identifier: string, attributes: Record<string, string> = {}): Context {
+  const context = Context.single('user', identifier);
+  for (const [key, value] of Object.entries(attributes)) {
+    context.addAttribute(new Attribute(key, [value]));
+  }
+  return context;
+}
+
+const betaTesters: SegmentData = {
+  key: 'beta-testers',
+  included: [{ identifier: 'user-1', type: 'user' }],
+  excluded: [{ identifier: 'user-2' }],
+  rules: [{ clauses: [{ attribute: 'plan', operator: 'equals', value: 'enterprise' }] }],
+};
+
+describe('segments', () => {
+  let logger: Logger;
+  let engine: RuleEngine;
+
+  beforeEach(() => {
+    logger = createMockLogger();
+    engine = new RuleEngine({ logger });
+  });
+
+  describe('in_segment', () => {
+    const segments = () => new SegmentSet([betaTesters]);
+
+    it('should match included contexts', () => {
+      expect(engine.isInSegment('beta-testers', userContext('user-1'), segments())).toBe(true);
+    });
+
+    it('should match included targets by type', () => {
+      const context = Context.single('organization', 'user-1');
+      expect(engine.isInSegment('beta-testers', context, segments())).toBe(false);
+    });
+
+    it('should match contexts satisfying a segment rule', () => {
+      const context = userContext('user-3', { plan: 'enterprise' });
+      expect(engine.isInSegment('beta-testers', context, segments())).toBe(true);
+    });
+
+    it('should let exclusions win over rules and inclusions', () => {
+      const context = userContext('user-2', { plan: 'enterprise' });
+      expect(engine.isInSegment('beta-testers', context, segments())).toBe(false);
+    });
+
+    it('should not match other contexts', () => {
+      const context = userContext('user-3', { plan: 'free' });
+      expect(engine.isInSegment('beta-testers', context, segments())).toBe(false);
+    });
+
+    it('should match rules referencing any of several segments', () => {
+      const set = new SegmentSet([
+        betaTesters,
+        { key: 'staff', included: [{ identifier: 'u-9' }] },
+      ]);
+      const rules = [segmentRule('in_segment', ['staff', 'beta-testers'])];
+
+      expect(engine.findMatchIndex(rules, userContext('u-9'), set)).toBe(0);
+      expect(engine.findMatchIndex(rules, userContext('user-1'), set)).toBe(0);
+      expect(engine.findMatchIndex(rules, userContext('user-3'), set)).toBe(-1);
+    });
+
+    it('should negate membership with not_in_segment', () => {
+      const rules = [segmentRule('not_in_segment', 'beta-testers')];
+
+      expect(engine.findMatchIndex(rules, userContext('user-1'), segments())).toBe(-1);
+      expect(engine.findMatchIndex(rules, userContext('user-3'), segments())).toBe(0);
+    });
+
+    it('should treat unknown segments as not containing the context', () => {
+      const rules = [segmentRule('in_segment', 'missing')];
+
+      expect(engine.findMatchIndex(rules, userContext('user-1'), segments())).toBe(-1);
+      expect(logger.warn).toHaveBeenCalledWith('Unknown segment in rule, treating it as no match', {
+        segment: 'missing',
+      });
+    });
+
+    it('should not match without segment definitions', () => {
+      expect(
+        engine.evaluate([segmentRule('in_segment', 'beta-testers')], userContext('user-1'))
+      ).toBe(null);
+    });
+
+    it('should keep literal segment targets working', () => {
+      const rules: Rule[] = [
+        {
+          clauses: [{ attribute: 'segment', operator: 'equals', value: { identifier: 'user-1' } }],
+          value: { value: { boolean: true } },
+        },
+      ];
+
+      expect(engine.findMatchIndex(rules, userContext('user-1'), segments())).toBe(0);
+    });
+  });
+
+  describe('nested segments', () => {
+    it('should evaluate segments that reference other segments', () => {
+      const set = new SegmentSet([
+        betaTesters,
+        {
+          key: 'beta-in-us',
+          rules: [
+            {
+              clauses: [
+                { attribute: 'segment', operator: 'in_segment', value: 'beta-testers' },
+                { attribute: 'country', operator: 'equals', value: 'US' },
+              ],
+            },
+          ],
+        },
+      ]);
+
+      const context = userContext('user-1', { country: 'US' });
+      expect(engine.isInSegment('beta-in-us', context, set)).toBe(true);
+      expect(engine.isInSegment('beta-in-us', userContext('user-1'), set)).toBe(false);
+    });
+
+    it('should detect cycles and treat the cyclic reference as no match', () => {
+      const set = new SegmentSet([
+        {
+          key: 'a',
+          rules: [{ any: [{ attribute: 'segment', operator: 'in_segment', value: 'b' }] }],
+        },
+        {
+          key: 'b',
+          rules: [{ clauses: [{ attribute: 'segment', operator: 'in_segment', value: 'a' }] }],
+        },
+      ]);
+
+      expect(engine.isInSegment('a', userContext('user-1'), set)).toBe(false);
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Segment references itself, treating it as no match',
+        { segment: 'a' }
+      );
+    });
+  });
+
+  describe('caching', () => {
+    it('should evaluate each segment once per context', () => {
+      const set = new SegmentSet([betaTesters]);
+      const lookup = vi.spyOn(set, 'get');
+      const context = userContext('user-3', { plan: 'enterprise' });
+
+      expect(engine.isInSegment('beta-testers', context, set)).toBe(true);
+      expect(engine.isInSegment('beta-testers', context, set)).toBe(true);
+      expect(lookup).toHaveBeenCalledTimes(1);
+
+      // Other contexts are evaluated separately
+      expect(engine.isInSegment('beta-testers', userContext('user-3'), set)).toBe(false);
+      expect(lookup).toHaveBeenCalledTimes(2);
+    });
+
+    it('should re-evaluate segments that depend on the clock', () => {
+      let now = Date.UTC(2026, 2, 1);
+      const clockEngine = new RuleEngine({ logger, clock: () => now });
+      const set = new SegmentSet([
+        {
+          key: 'new-users',
+          rules: [
+            { clauses: [{ attribute: 'signed_up_at', operator: 'newer_than', value: '30d' }] },
+          ],
+        },
+        { key: 'new-or-staff', rules: [segmentRule('in_segment', 'new-users')] },
+      ]);
+      const context = userContext('user-3', { signed_up_at: '2026-02-15' });
+
+      expect(clockEngine.isInSegment('new-or-staff', context, set)).toBe(true);
+
+      now = Date.UTC(2026, 3, 1);
+      expect(clockEngine.isInSegment('new-users', context, set)).toBe(false);
+      expect(clockEngine.isInSegment('new-or-staff', context, set)).toBe(false);
+    });
+  });
+
+  describe('FlagManager', () => {
+    const flag: FlagData = {
+      version: 'fla_test',
+      type: 'boolean',
+      key: 'beta-feature',
+      name: 'Beta Feature',
+      target: { value: { value: { boolean: false } } },
+      rules: [segmentRule('in_segment', 'beta-testers')],
+    };
+
+    function createCache(data: Record<string, string> = {}): Cache {
+      return {
+        get: vi.fn(async (key: string) => data[key] ?? null),
+        set: vi.fn(async (key: string, value: string) => {
+          data[key] = value;
+        }),
+        has: vi.fn(async (key: string) => key in data),
+        delete: vi.fn(async () => {}),
+        clear: vi.fn(async () => {}),
+      };
+    }
+
+    function createManager(response: RulesResponse, cache: Cache = createCache()) {
+      const apiClient = createMockApiClient(async () => response);
+
+      return new FlagManager(apiClient, cache, engine, 3600, logger, { usageReporting: false });
+    }
+
+    it('should evaluate segments from the rules response', async () => {
+      const manager = createManager({ version: 'v1', flags: [flag], segments: [betaTesters] });
+
+      const included = await manager.withContext(userContext('user-1')).single('beta-feature');
+      const other = await manager.withContext(userContext('user-3')).single('beta-feature');
+
+      expect(included.asBool()).toBe(true);
+      expect(other.asBool()).toBe(false);
+    });
+
+    it('should pick up context changes made between evaluations', async () => {
+      const manager = createManager({ version: 'v1', flags: [flag], segments: [betaTesters] });
+      const context = userContext('user-3');
+      const scoped = manager.withContext(context);
+
+      expect((await scoped.single('beta-feature')).asBool()).toBe(false);
+
+      context.addAttribute(new Attribute('plan', ['enterprise']));
+      expect((await scoped.single('beta-feature')).asBool()).toBe(true);
+      expect((await scoped.all()).map((result) => result.asBool())).toEqual([true]);
+    });
+
+    it('should share definitions but not cached membership with a copy', () => {
+      const set = new SegmentSet([betaTesters]);
+      const context = userContext('user-3', { plan: 'enterprise' });
+      engine.isInSegment('beta-testers', context, set);
+
+      const copy = new SegmentSet(set);
+      expect(copy.get('beta-testers')).toBe(betaTesters);
+      expect(copy.getCached('beta-testers', context)).toBeUndefined();
+      expect(set.getCached('beta-testers', context)).toBe(true);
+    });
+
+    it('should load segments from cached rules', async () => {
+      const cache = createCache({
+        zenmanage_rules: JSON.stringify({ version: 'v1', flags: [flag], segments: [betaTesters] }),
+      });
+      const manager = createManager({ version: 'v2', flags: [] }, cache);
+
+      const result = await manager.withContext(userContext('user-1')).single('beta-feature');
+      expect(result.asBool()).toBe(true);
+    });
+
+    it('should persist segments with the rules', async () => {
+      const cache = createCache();
+      const manager = createManager(
+        { version: 'v1', flags: [flag], segments: [betaTesters] },
+        cache
+      );
+
+      await manager.all();
+      await manager.persistRules();
+
+      const persisted = JSON.parse((await cache.get('zenmanage_rules'))!);
+      expect(persisted.segments).toEqual([betaTesters]);
+    });
+  });
+});
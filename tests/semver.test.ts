@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { compareSemver, parseSemver, satisfiesSemverRange } from '../src/semver';
+
+function compare(a: string, b: string): number {
+  return Math.sign(compareSemver(parseSemver(a)!, parseSemver(b)!));
+}
+
+describe('parseSemver', () => {
+  it('should parse full versions with pre-release and build metadata', () => {
+    expect(parseSemver('1.2.3-beta.4+exp.sha.5114f85')).toEqual({
+      major: 1,
+      minor: 2,
+      patch: 3,
+      prerelease: ['beta', 4],
+      build: ['exp', 'sha', '5114f85'],
+    });
+  });
+
+  it('should accept a leading v and missing minor or patch parts', () => {
+    expect(parseSemver('v2')).toMatchObject({ major: 2, minor: 0, patch: 0 });
+    expect(parseSemver('1.10')).toMatchObject({ major: 1, minor: 10, patch: 0 });
+  });
+
+  it('should return null for invalid versions', () => {
+    expect(parseSemver('')).toBeNull();
+    expect(parseSemver('1.2.3.4')).toBeNull();
+    expect(parseSemver('1.2.x')).toBeNull();
+    expect(parseSemver('1.2.3-')).toBeNull();
+  });
+});
+
+describe('compareSemver', () => {
+  it('should follow semver precedence', () => {
+    // Example ordering from https://semver.org/#spec-item-11
+    const ordered = [
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-alpha.beta',
+      '1.0.0-beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0-rc.1',
+      '1.0.0',
+      '1.9.0',
+      '1.10.0',
+      '2.0.0',
+    ];
+
+    for (let i = 0; i < ordered.length - 1; i++) {
+      expect(compare(ordered[i], ordered[i + 1])).toBe(-1);
+      expect(compare(ordered[i + 1], ordered[i])).toBe(1);
+    }
+  });
+
+  it('should ignore build metadata', () => {
+    expect(compare('1.0.0+build.1', '1.0.0+build.2')).toBe(0);
+  });
+});
+
+describe('satisfiesSemverRange', () => {
+  it.each([
+    ['1.2.3', '1.2.3', true],
+    ['1.2.4', '1.2.3', false],
+    ['1.2.3', '>=1.2.0 <2.0.0', true],
+    ['2.0.0', '>=1.2.0 <2.0.0', false],
+    ['1.4.0', '^1.2.0', true],
+    ['2.0.0-beta', '^1.2.0', false],
+    ['0.2.5', '^0.2.3', true],
+    ['0.3.0', '^0.2.3', false],
+    ['0.0.4', '^0.0.3', false],
+    ['1.2.9', '~1.2.3', true],
+    ['1.3.0', '~1.2.3', false],
+    ['1.7.0', '1.x', true],
+    ['2.0.0', '1.x', false],
+    ['1.2.5', '1.2.*', true],
+    ['9.9.9', '*', true],
+    ['1.5.0', '1.2.0 - 1.6', true],
+    ['1.6.9', '1.2.0 - 1.6', true],
+    ['1.7.0', '1.2.0 - 1.6', false],
+    ['3.1.0', '^1.0.0 || >=3.0.0', true],
+    ['2.1.0', '^1.0.0 || >=3.0.0', false],
+    ['1.3.0', '> 1.2', true],
+    ['1.2.9', '> 1.2', false],
+    ['1.2.9', '<= 1.2', true],
+    ['1.3.0', '<= 1.2', false],
+    ['1.0.0-rc.1', '>=1.0.0-beta', true],
+    ['1.5.0-rc.1', '^1.0.0', false],
+    ['2.0.0-beta', '>=1.0.0', false],
+    ['1.0.0-beta', '*', false],
+    ['1.2.3-rc.2', '^1.2.3-rc.1', true],
+    ['1.2.4-rc.1', '^1.2.3-rc.1', false],
+    ['1.2.4-rc.1', '^1.2.3-rc.1 || >=1.2.4-alpha', true],
+    ['1.0.0-rc.1', '1.0.0-rc.1', true],
+  ])('%s in %s should be %s', (version, range, expected) => {
+    expect(satisfiesSemverRange(version, range)).toBe(expected);
+  });
+
+  it('should not match invalid versions or ranges', () => {
+    expect(satisfiesSemverRange('latest', '*')).toBe(false);
+    expect(satisfiesSemverRange('1.0.0', '>>1.0.0')).toBe(false);
+    expect(satisfiesSemverRange('1.0.0', '1.0.0 - ')).toBe(false);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Zenmanage } from '../src/zenmanage';
+import { ConfigBuilder } from '../src/config';
+import { FlagManager } from '../src/flag-manager';
+import { RuleEngine } from '../src/rule-engine';
+import { InMemoryCache } from '../src/cache';
+import type { Logger, RulesResponse } from '../src/types';
+import { buildFlag, buildRules, createMockApiClient, createMockLogger } from './helpers';
+
+function rules(value: boolean, version?: string): RulesResponse {
+  return buildRules([buildFlag('feature', value)], version);
+}
+
+describe('FlagManager.close', () => {
+  it('should stop polling and send buffered usage', async () => {
+    const apiClient = createMockApiClient(async () => rules(true));
+    const manager = new FlagManager(
+      apiClient,
+      new InMemoryCache(),
+      new RuleEngine(),
+      3600,
+      createMockLogger(),
+      { pollingInterval: 30 }
+    );
+    manager.start();
+
+    await manager.single('feature');
+    await manager.close();
+
+    expect(manager.isPolling()).toBe(false);
+    expect(apiClient.sendUsage).toHaveBeenCalledWith([{ key: 'feature', context: undefined }]);
+  });
+
+  it('should persist the rules in memory when requested', async () => {
+    const cache = new InMemoryCache();
+    const manager = new FlagManager(
+      createMockApiClient(async () => rules(true)),
+      cache,
+      new RuleEngine(),
+      3600,
+      createMockLogger()
+    );
+
+    await manager.single('feature');
+    await cache.clear();
+    await manager.close({ persistRules: true });
+
+    const cached = await cache.get('zenmanage_rules');
+    expect(JSON.parse(cached!)).toEqual(rules(true));
+  });
+
+  it('should wait for the background fetch started by bootstrap rules', async () => {
+    const cache = new InMemoryCache();
+    const apiClient = createMockApiClient(async () => rules(true));
+    let respond: (response: RulesResponse) => void = () => {};
+    apiClient.getRules.mockReturnValue(
+      new Promise<RulesResponse>((resolve) => {
+        respond = resolve;
+      })
+    );
+    const manager = new FlagManager(apiClient, cache, new RuleEngine(), 3600, createMockLogger(), {
+      bootstrap: rules(false),
+    });
+
+    await manager.single('feature');
+    let closed = false;
+    const closing = manager.close().then(() => {
+      closed = true;
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(closed).toBe(false);
+
+    respond(rules(true));
+    await closing;
+    expect(await cache.get('zenmanage_rules')).not.toBeNull();
+  });
+
+  it('should ignore usage recorded after closing', async () => {
+    const apiClient = createMockApiClient(async () => rules(true));
+    const manager = new FlagManager(
+      apiClient,
+      new InMemoryCache(),
+      new RuleEngine(),
+      3600,
+      createMockLogger()
+    );
+
+    await manager.close();
+    await manager.single('feature');
+    await manager.flushUsage();
+
+    expect(apiClient.sendUsage).not.toHaveBeenCalled();
+  });
+
+  it('should not persist bootstrap rules', async () => {
+    const cache = new InMemoryCache();
+    const apiClient = createMockApiClient(async () => rules(true));
+    apiClient.getRules.mockRejectedValue(new Error('network down'));
+    const manager = new FlagManager(apiClient, cache, new RuleEngine(), 3600, createMockLogger(), {
+      bootstrap: rules(false),
+    });
+
+    await manager.single('feature');
+    await manager.close({ persistRules: true });
+
+    expect(await cache.get('zenmanage_rules')).toBeNull();
+  });
+});
+
+describe('Zenmanage shutdown', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  async function createClient(logger: Logger = createMockLogger()) {
+    const cache = new InMemoryCache();
+    await cache.set('zenmanage_rules', JSON.stringify(rules(true)), 3600);
+
+    const config = ConfigBuilder.create()
+      .withEnvironmentToken('srv_test_123')
+      .withCache(cache)
+      .withLogger(logger)
+      .build();
+
+    return new Zenmanage(config);
+  }
+
+  it('should flush pending usage reports', async () => {
+    const fetch = vi.fn(async () => new Response(null, { status: 202 }));
+    vi.stubGlobal('fetch', fetch);
+    const zenmanage = await createClient();
+
+    await zenmanage.flags().single('feature');
+
+    expect(await zenmanage.flush()).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://api.zenmanage.com/v1/flags/feature/usage');
+    expect(init.method).toBe('POST');
+  });
+
+  it('should give up after the timeout', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() => new Promise<Response>(() => {}))
+    );
+    const logger = createMockLogger();
+    const zenmanage = await createClient(logger);
+
+    await zenmanage.flags().single('feature');
+
+    expect(await zenmanage.close({ timeout: 0.05 })).toBe(false);
+    expect(logger.warn).toHaveBeenCalledWith('Zenmanage close timed out after 0.05s');
+  });
+
+  it('should only close once', async () => {
+    const fetch = vi.fn(async () => new Response(null, { status: 202 }));
+    vi.stubGlobal('fetch', fetch);
+    const zenmanage = await createClient();
+
+    await zenmanage.flags().single('feature');
+    const [first, second] = await Promise.all([zenmanage.close(), zenmanage.close()]);
+
+    expect(first).toBe(true);
+    expect(second).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
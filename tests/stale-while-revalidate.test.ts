@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FlagManager } from '../src/flag-manager';
+import { RuleEngine } from '../src/rule-engine';
+import { InMemoryCache } from '../src/cache';
+import type { Logger, RulesResponse } from '../src/types';
+import { buildFlag, buildRules, createMockApiClient, createMockLogger } from './helpers';
+
+function rules(value: boolean): RulesResponse {
+  return buildRules([buildFlag('feature', value)]);
+}
+
+describe('FlagManager stale-while-revalidate', () => {
+  let logger: Logger;
+  let cache: InMemoryCache;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-01T00:00:00Z'));
+    logger = createMockLogger();
+    cache = new InMemoryCache();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should not refresh while rules are fresh', async () => {
+    const apiClient = createMockApiClient(async () => rules(true));
+    const manager = new FlagManager(apiClient, cache, new RuleEngine(), 60, logger, {
+      maxStale: 300,
+    });
+
+    await manager.single('feature');
+    vi.advanceTimersByTime(30_000);
+    await manager.single('feature');
+
+    expect(apiClient.getRules).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve stale rules immediately and refresh once in the background', async () => {
+    let resolveRefresh: (value: RulesResponse) => void = () => {};
+    const apiClient = createMockApiClient(
+      vi
+        .fn()
+        .mockResolvedValueOnce(rules(false))
+        .mockImplementationOnce(() => new Promise((resolve) => (resolveRefresh = resolve)))
+    );
+    const manager = new FlagManager(apiClient, cache, new RuleEngine(), 60, logger, {
+      maxStale: 300,
+    });
+
+    await manager.single('feature');
+    vi.advanceTimersByTime(61_000);
+
+    const [first, second] = await Promise.all([
+      manager.single('feature'),
+      manager.single('feature'),
+    ]);
+    expect(first.asBool()).toBe(false);
+    expect(second.asBool()).toBe(false);
+    expect(apiClient.getRules).toHaveBeenCalledTimes(2);
+
+    resolveRefresh(rules(true));
+    await vi.waitFor(async () => expect((await manager.single('feature')).asBool()).toBe(true));
+    expect(apiClient.getRules).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fall back to defaults past the max stale limit', async () => {
+    const apiClient = createMockApiClient(
+      vi.fn().mockResolvedValueOnce(rules(true)).mockRejectedValue(new Error('network down'))
+    );
+    const manager = new FlagManager(apiClient, cache, new RuleEngine(), 60, logger, {
+      maxStale: 300,
+    });
+
+    await manager.single('feature');
+    vi.advanceTimersByTime(361_000);
+
+    const flag = await manager.single('feature', false);
+    expect(flag.asBool()).toBe(false);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Rules exceeded max stale age, falling back to defaults'
+    );
+  });
+
+  it('should emit change events when rules past the max stale limit are dropped', async () => {
+    const apiClient = createMockApiClient(
+      vi.fn().mockResolvedValueOnce(rules(true)).mockRejectedValue(new Error('network down'))
+    );
+    const manager = new FlagManager(apiClient, cache, new RuleEngine(), 60, logger, {
+      maxStale: 300,
+    });
+    const onChange = vi.fn();
+    manager.on('change', onChange);
+
+    await manager.single('feature');
+    vi.advanceTimersByTime(361_000);
+    await manager.single('feature', false);
+
+    expect(onChange).toHaveBeenCalledWith(['feature']);
+  });
+
+  it('should not retry a failed revalidation on every evaluation', async () => {
+    const apiClient = createMockApiClient(
+      vi.fn().mockResolvedValueOnce(rules(true)).mockRejectedValue(new Error('network down'))
+    );
+    const manager = new FlagManager(apiClient, cache, new RuleEngine(), 60, logger, {
+      maxStale: 300,
+    });
+
+    await manager.single('feature');
+    vi.advanceTimersByTime(61_000);
+
+    await manager.single('feature');
+    await vi.waitFor(() => expect(logger.error).toHaveBeenCalled());
+    await manager.single('feature');
+    await manager.single('feature');
+
+    expect(apiClient.getRules).toHaveBeenCalledTimes(2);
+  });
+
+  it('should serve an expired cache entry on cold start while revalidating', async () => {
+    await cache.set('zenmanage_rules', JSON.stringify(rules(false)), 60);
+    vi.advanceTimersByTime(120_000);
+
+    const apiClient = createMockApiClient(async () => rules(true));
+    const manager = new FlagManager(apiClient, cache, new RuleEngine(), 60, logger, {
+      maxStale: 300,
+    });
+
+    const flag = await manager.single('feature');
+    expect(flag.asBool()).toBe(false);
+    expect(apiClient.getRules).toHaveBeenCalledTimes(1);
+
+    await vi.waitFor(async () => expect((await manager.single('feature')).asBool()).toBe(true));
+  });
+
+  it('should block on the API when the cache entry is past the max stale limit', async () => {
+    await cache.set('zenmanage_rules', JSON.stringify(rules(false)), 60);
+    vi.advanceTimersByTime(600_000);
+
+    const apiClient = createMockApiClient(async () => rules(true));
+    const manager = new FlagManager(apiClient, cache, new RuleEngine(), 60, logger, {
+      maxStale: 300,
+    });
+
+    const flag = await manager.single('feature');
+    expect(flag.asBool()).toBe(true);
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { EventStreamParser, RulesStream, type StreamEvent } from '../src/streaming';
+import { ApiClient } from '../src/api-client';
+import { FlagManager } from '../src/flag-manager';
+import { RuleEngine } from '../src/rule-engine';
+import { InMemoryCache } from '../src/cache';
+import type { Logger, RulesResponse } from '../src/types';
+import { buildFlag, buildRules, createMockApiClient, createMockLogger } from './helpers';
+
+function rules(value: boolean): RulesResponse {
+  return buildRules([buildFlag('kill-switch', value)]);
+}
+
+describe('EventStreamParser', () => {
+  it('should dispatch events split across chunks', () => {
+    const events: StreamEvent[] = [];
+    const parser = new EventStreamParser((event) => events.push(event));
+
+    parser.push('event: rul');
+    parser.push('es\ndata: {"a":');
+    parser.push('1}\n\n');
+
+    expect(events).toEqual([{ event: 'rules', data: '{"a":1}', id: undefined }]);
+  });
+
+  it('should join multi-line data and default the event type to message', () => {
+    const events: StreamEvent[] = [];
+    const parser = new EventStreamParser((event) => events.push(event));
+
+    parser.push('id: 7\r\ndata: first\r\ndata: second\r\n\r\n');
+
+    expect(events).toEqual([{ event: 'message', data: 'first\nsecond', id: '7' }]);
+  });
+
+  it('should ignore comments and events without data', () => {
+    const events: StreamEvent[] = [];
+    const parser = new EventStreamParser((event) => events.push(event));
+
+    parser.push(': keep-alive\n\nevent: rules_changed\n\n');
+
+    expect(events).toEqual([]);
+  });
+});
+
+describe('RulesStream', () => {
+  let logger: Logger;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    logger = createMockLogger();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should reconnect with backoff and fall back after repeated failures', async () => {
+    const connect = vi.fn(async () => {
+      throw new Error('connection refused');
+    });
+    const onFallback = vi.fn();
+    const stream = new RulesStream(connect, { onEvent: vi.fn(), onFallback }, logger);
+
+    stream.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(connect).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(connect).toHaveBeenCalledTimes(2);
+    expect(onFallback).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(connect).toHaveBeenCalledTimes(3);
+    expect(onFallback).toHaveBeenCalledTimes(1);
+    expect(stream.isFallingBack()).toBe(true);
+
+    // Keeps retrying without notifying again
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(onFallback).toHaveBeenCalledTimes(1);
+
+    stream.stop();
+  });
+
+  it('should stop reconnecting after stop()', async () => {
+    const connect = vi.fn(async () => {
+      throw new Error('connection refused');
+    });
+    const stream = new RulesStream(connect, { onEvent: vi.fn() }, logger);
+
+    stream.start();
+    await vi.advanceTimersByTimeAsync(0);
+    stream.stop();
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(connect).toHaveBeenCalledTimes(1);
+    expect(stream.isRunning()).toBe(false);
+  });
+});
+
+describe('ApiClient.stream', () => {
+  let server: Server;
+  let endpoint: string;
+  let connections: ServerResponse[];
+  let requestHeaders: Record<string, string | string[] | undefined>[];
+
+  beforeEach(async () => {
+    connections = [];
+    requestHeaders = [];
+    server = createServer((req, res) => {
+      if (req.url !== '/v1/flag-stream') {
+        res.writeHead(404).end();
+        return;
+      }
+
+      requestHeaders.push(req.headers);
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write(': connected\n\n');
+      connections.push(res);
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    connections.forEach((res) => res.destroy());
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should deliver pushed rule sets and change pings', async () => {
+    const client = new ApiClient('srv_test_123', endpoint, createMockLogger());
+    const onRules = vi.fn();
+    const onRulesChanged = vi.fn();
+    const stream = client.stream({ onRules, onRulesChanged });
+
+    stream.start();
+    await vi.waitFor(() => expect(connections).toHaveLength(1));
+
+    connections[0].write(`event: rules\ndata: ${JSON.stringify(rules(true))}\n\n`);
+    connections[0].write('event: rules_changed\ndata: {}\n\n');
+
+    await vi.waitFor(() => expect(onRulesChanged).toHaveBeenCalledTimes(1));
+    expect(onRules).toHaveBeenCalledWith(rules(true));
+    expect(requestHeaders[0]['x-api-key']).toBe('srv_test_123');
+    expect(requestHeaders[0]['accept']).toBe('text/event-stream');
+
+    stream.stop();
+  });
+
+  it('should ignore invalid rule payloads', async () => {
+    const logger = createMockLogger();
+    const client = new ApiClient('srv_test_123', endpoint, logger);
+    const onRules = vi.fn();
+    const stream = client.stream({ onRules, onRulesChanged: vi.fn() });
+
+    stream.start();
+    await vi.waitFor(() => expect(connections).toHaveLength(1));
+
+    connections[0].write('event: rules\ndata: {"flags": "nope"}\n\n');
+
+    await vi.waitFor(() =>
+      expect(logger.warn).toHaveBeenCalledWith('Invalid rules format received from stream')
+    );
+    expect(onRules).not.toHaveBeenCalled();
+
+    stream.stop();
+  });
+
+  it('should reconnect when the server closes the connection', async () => {
+    const client = new ApiClient('srv_test_123', endpoint, createMockLogger());
+    const onOpen = vi.fn();
+    const stream = client.stream({ onRules: vi.fn(), onRulesChanged: vi.fn(), onOpen });
+
+    stream.start();
+    await vi.waitFor(() => expect(connections).toHaveLength(1));
+    connections[0].end();
+
+    await vi.waitFor(() => expect(connections).toHaveLength(2), { timeout: 3000 });
+    await vi.waitFor(() => expect(onOpen).toHaveBeenLastCalledWith(true));
+    expect(onOpen).toHaveBeenCalledWith(false);
+
+    stream.stop();
+  });
+});
+
+describe('FlagManager streaming', () => {
+  function createStreamingApiClient(getRules: () => Promise<RulesResponse>) {
+    const stream = { start: vi.fn(), stop: vi.fn(), isRunning: vi.fn(() => true) };
+    const apiClient = { ...createMockApiClient(getRules), stream: vi.fn(() => stream) };
+
+    return { apiClient, stream, listener: () => apiClient.stream.mock.calls[0][0] };
+  }
+
+  it('should apply rule sets pushed over the stream', async () => {
+    const { apiClient, stream, listener } = createStreamingApiClient(async () => rules(false));
+    const manager = new FlagManager(
+      apiClient,
+      new InMemoryCache(),
+      new RuleEngine(),
+      3600,
+      createMockLogger(),
+      {
+        streaming: true,
+      }
+    );
+
+    expect((await manager.single('kill-switch')).asBool()).toBe(false);
+
+    manager.start();
+    expect(stream.start).toHaveBeenCalled();
+    expect(manager.isStreaming()).toBe(true);
+
+    listener().onRules(rules(true));
+
+    await vi.waitFor(async () => expect((await manager.single('kill-switch')).asBool()).toBe(true));
+    expect(apiClient.getRules).toHaveBeenCalledTimes(1);
+
+    manager.stop();
+    expect(stream.stop).toHaveBeenCalled();
+  });
+
+  it('should re-fetch rules when the stream signals a change', async () => {
+    const getRules = vi.fn().mockResolvedValueOnce(rules(false)).mockResolvedValueOnce(rules(true));
+    const { apiClient, listener } = createStreamingApiClient(getRules);
+    const manager = new FlagManager(
+      apiClient,
+      new InMemoryCache(),
+      new RuleEngine(),
+      3600,
+      createMockLogger(),
+      {
+        streaming: true,
+      }
+    );
+
+    await manager.single('kill-switch');
+    manager.start();
+    listener().onRulesChanged();
+
+    await vi.waitFor(async () => expect((await manager.single('kill-switch')).asBool()).toBe(true));
+    manager.stop();
+  });
+
+  it('should poll while the stream is unavailable and stop once it reconnects', async () => {
+    const { apiClient, listener } = createStreamingApiClient(async () => rules(false));
+    const manager = new FlagManager(
+      apiClient,
+      new InMemoryCache(),
+      new RuleEngine(),
+      3600,
+      createMockLogger(),
+      {
+        streaming: true,
+      }
+    );
+
+    manager.start();
+    expect(manager.isPolling()).toBe(false);
+
+    listener().onFallback();
+    expect(manager.isPolling()).toBe(true);
+
+    listener().onOpen(true);
+    expect(manager.isPolling()).toBe(false);
+    await vi.waitFor(() => expect(apiClient.getRules).toHaveBeenCalled());
+
+    manager.stop();
+  });
+});
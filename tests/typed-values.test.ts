@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { FlagManager } from '../src/flag-manager';
+import { RuleEngine } from '../src/rule-engine';
+import { InMemoryCache } from '../src/cache';
+import { DefaultsCollection } from '../src/defaults-collection';
+import type { FlagData, FlagType, Logger } from '../src/types';
+import { buildFlag, buildRules, createMockApiClient, createMockLogger } from './helpers';
+
+function typedFlag(
+  key: string,
+  type: FlagType,
+  value: FlagData['target']['value']['value']
+): FlagData {
+  return buildFlag(key, true, { type, target: { value: { value } } });
+}
+
+function createManager(logger: Logger, getRules?: () => Promise<unknown>): FlagManager {
+  const apiClient = createMockApiClient(
+    getRules ??
+      (async () =>
+        buildRules([
+          typedFlag('enabled', 'boolean', { boolean: true }),
+          typedFlag('theme', 'string', { string: 'dark' }),
+          typedFlag('limit', 'number', { number: 25 }),
+        ]))
+  );
+
+  return new FlagManager(apiClient, new InMemoryCache(), new RuleEngine(), 3600, logger);
+}
+
+describe('FlagManager typed accessors', () => {
+  it('should return flag values of the expected type', async () => {
+    const manager = createManager(createMockLogger());
+
+    expect(await manager.boolValue('enabled', false)).toBe(true);
+    expect(await manager.stringValue('theme', 'light')).toBe('dark');
+    expect(await manager.numberValue('limit', 10)).toBe(25);
+  });
+
+  it('should return the default and log a warning when the flag is missing', async () => {
+    const logger = createMockLogger();
+    const manager = createManager(logger);
+
+    expect(await manager.boolValue('missing', true)).toBe(true);
+    expect(await manager.stringValue('missing', 'light')).toBe('light');
+    expect(await manager.numberValue('missing', 10)).toBe(10);
+    expect(logger.warn).toHaveBeenCalledWith('Flag not found: missing, using default value', {
+      key: 'missing',
+    });
+  });
+
+  it('should prefer the DefaultsCollection over the default argument', async () => {
+    const manager = createManager(createMockLogger()).withDefaults(
+      DefaultsCollection.fromObject({ missing: 'from-defaults', wrong: 5 })
+    );
+
+    expect(await manager.stringValue('missing', 'light')).toBe('from-defaults');
+    expect(await manager.stringValue('wrong', 'light')).toBe('light');
+  });
+
+  it('should log that no rules are loaded when there are none', async () => {
+    const logger = createMockLogger();
+    const manager = new FlagManager(
+      createMockApiClient(),
+      new InMemoryCache(),
+      new RuleEngine(),
+      3600,
+      logger,
+      { offline: true }
+    );
+
+    expect(await manager.boolValue('enabled', true)).toBe(true);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'No rules are loaded for flag enabled, using default value',
+      { key: 'enabled' }
+    );
+  });
+
+  it('should return the default when the flag has a different type', async () => {
+    const logger = createMockLogger();
+    const manager = createManager(logger);
+
+    expect(await manager.numberValue('theme', 10)).toBe(10);
+    expect(await manager.boolValue('limit', false)).toBe(false);
+    expect(logger.warn).toHaveBeenCalledWith('Flag theme is of type string, expected number', {
+      key: 'theme',
+    });
+  });
+
+  it('should return the default and log an error when rules fail to load', async () => {
+    const logger = createMockLogger();
+    const manager = createManager(logger, async () => {
+      throw new Error('network down');
+    });
+
+    await expect(manager.boolValue('enabled', false)).resolves.toBe(false);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Failed to evaluate flag enabled, using default value',
+      {
+        key: 'enabled',
+        error: 'network down',
+      }
+    );
+  });
+});
@@ -0,0 +1,412 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { UsageReporter, type UsageRecord } from '../src/usage-reporter';
+import { ApiClient } from '../src/api-client';
+import { FlagManager } from '../src/flag-manager';
+import { RuleEngine } from '../src/rule-engine';
+import { InMemoryCache } from '../src/cache';
+import { Attribute, Context } from '../src/context';
+import type { FlagData, Logger } from '../src/types';
+import { buildFlag, createMockApiClient, createMockLogger } from './helpers';
+
+describe('UsageReporter', () => {
+  let logger: Logger;
+  let send: ReturnType<typeof vi.fn<[UsageRecord[]], Promise<void>>>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    logger = createMockLogger();
+    send = vi.fn(async (_records: UsageRecord[]) => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should aggregate evaluations per flag and context', async () => {
+    const reporter = new UsageReporter(send, logger);
+    const user = new Context('user', undefined, 'user-1');
+
+    reporter.record('feature', user);
+    reporter.record('feature', user);
+    reporter.record('feature', new Context('user', undefined, 'user-1'));
+    reporter.record('feature');
+    reporter.record('other', user);
+    expect(reporter.size()).toBe(3);
+
+    await reporter.close();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send.mock.calls[0][0]).toEqual([
+      { key: 'feature', context: { type: 'user', identifier: 'user-1' } },
+      { key: 'feature' },
+      { key: 'other', context: { type: 'user', identifier: 'user-1' } },
+    ]);
+    expect(reporter.size()).toBe(0);
+  });
+
+  it('should flush on the configured interval', async () => {
+    const reporter = new UsageReporter(send, logger, { flushInterval: 10 });
+
+    reporter.record('feature');
+    await vi.advanceTimersByTimeAsync(9999);
+    expect(send).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledWith([{ key: 'feature' }]);
+
+    await reporter.close();
+  });
+
+  it('should stop the flush timer once the buffer is empty', async () => {
+    const reporter = new UsageReporter(send, logger, { flushInterval: 10 });
+
+    reporter.record('feature');
+    expect(vi.getTimerCount()).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+
+    reporter.record('feature');
+    expect(vi.getTimerCount()).toBe(1);
+
+    await reporter.close();
+  });
+
+  it('should flush early once the batch size is reached', async () => {
+    const reporter = new UsageReporter(send, logger, { batchSize: 2 });
+
+    reporter.record('a');
+    reporter.record('a');
+    expect(send).not.toHaveBeenCalled();
+
+    reporter.record('b');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send.mock.calls[0][0]).toHaveLength(2);
+
+    await reporter.close();
+  });
+
+  it('should split large flushes into batches', async () => {
+    const reporter = new UsageReporter(send, logger, { batchSize: 2 });
+
+    // While the API is down, failed batches pile up past the batch size
+    send.mockRejectedValue(new Error('network down'));
+    reporter.record('a');
+    reporter.record('b');
+    await vi.advanceTimersByTimeAsync(0);
+    reporter.record('c');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(reporter.size()).toBe(3);
+
+    send.mockClear();
+    send.mockResolvedValue(undefined);
+    await reporter.close();
+
+    expect(send.mock.calls.map((call) => call[0].length)).toEqual([2, 1]);
+  });
+
+  it('should send batches one after another', async () => {
+    const reporter = new UsageReporter(send, logger, { batchSize: 2, maxQueueSize: 10 });
+    let release = (): void => {};
+    send.mockImplementation(() => new Promise<void>((resolve) => (release = resolve)));
+
+    reporter.record('a');
+    reporter.record('b');
+    reporter.record('c');
+    reporter.record('d');
+    reporter.record('e');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    const closed = reporter.close();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    release();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(send).toHaveBeenCalledTimes(2);
+
+    release();
+    await vi.advanceTimersByTimeAsync(0);
+    release();
+    await closed;
+    expect(send.mock.calls.map((call) => call[0].map((record) => record.key))).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+      ['e'],
+    ]);
+  });
+
+  it('should flush before the process exits without close()', async () => {
+    const reporter = new UsageReporter(send, logger);
+    const before = process.listeners('beforeExit');
+
+    reporter.record('feature');
+    const added = process.listeners('beforeExit').filter((l) => !before.includes(l));
+    expect(added).toHaveLength(1);
+
+    added[0](0);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(send).toHaveBeenCalledWith([{ key: 'feature' }]);
+    expect(process.listeners('beforeExit')).toEqual(before);
+  });
+
+  it('should flush when the page is hidden', async () => {
+    const listeners = new Map<string, () => void>();
+    const document = {
+      visibilityState: 'visible',
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+    };
+    vi.stubGlobal('document', document);
+    vi.stubGlobal('addEventListener', (type: string, listener: () => void) =>
+      listeners.set(type, listener)
+    );
+    vi.stubGlobal('removeEventListener', (type: string) => listeners.delete(type));
+
+    try {
+      const reporter = new UsageReporter(send, logger);
+
+      reporter.record('a');
+      const onVisibilityChange = document.addEventListener.mock.calls[0][1] as () => void;
+      onVisibilityChange();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(send).not.toHaveBeenCalled();
+
+      document.visibilityState = 'hidden';
+      onVisibilityChange();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(send).toHaveBeenCalledWith([{ key: 'a' }]);
+      expect(listeners.size).toBe(0);
+
+      reporter.record('b');
+      listeners.get('pagehide')?.();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(send).toHaveBeenLastCalledWith([{ key: 'b' }]);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should cap the buffer and log dropped records', async () => {
+    const reporter = new UsageReporter(send, logger, { maxQueueSize: 2 });
+
+    reporter.record('a');
+    reporter.record('b');
+    reporter.record('c');
+    reporter.record('a');
+    expect(reporter.size()).toBe(2);
+
+    await reporter.close();
+
+    expect(logger.warn).toHaveBeenCalledWith('Usage buffer full, dropped usage records', {
+      dropped: 1,
+    });
+    expect(send.mock.calls[0][0]).toEqual([{ key: 'a' }, { key: 'b' }]);
+  });
+
+  it('should keep failed batches for the next flush', async () => {
+    send.mockRejectedValueOnce(new Error('network down'));
+    const reporter = new UsageReporter(send, logger);
+
+    reporter.record('feature');
+    await reporter.flush();
+    expect(reporter.size()).toBe(1);
+    expect(logger.warn).toHaveBeenCalledWith('Failed to report usage, will retry on next flush', {
+      error: 'network down',
+      records: 1,
+    });
+
+    reporter.record('feature');
+    await reporter.close();
+
+    expect(send).toHaveBeenLastCalledWith([{ key: 'feature' }]);
+    expect(reporter.size()).toBe(0);
+  });
+
+  it('should redact private attributes before buffering', async () => {
+    const reporter = new UsageReporter(send, logger, {
+      redaction: { privateAttributes: ['email'] },
+    });
+    const user = new Context('user', undefined, 'user-1', [
+      new Attribute('email', ['jane@example.com']),
+      new Attribute('plan', ['pro']),
+    ]);
+
+    reporter.record('feature', user);
+    await reporter.close();
+
+    expect(send.mock.calls[0][0]).toEqual([
+      {
+        key: 'feature',
+        context: {
+          type: 'user',
+          identifier: 'user-1',
+          attributes: [{ key: 'plan', values: [{ value: 'pro' }] }],
+          redacted: ['email'],
+        },
+      },
+    ]);
+  });
+
+  it('should wait for in-flight requests when flushing', async () => {
+    let resolveSend: () => void = () => {};
+    send.mockImplementationOnce(() => new Promise<void>((resolve) => (resolveSend = resolve)));
+    const reporter = new UsageReporter(send, logger, { batchSize: 1 });
+
+    reporter.record('feature');
+
+    let flushed = false;
+    const flush = reporter.flush().then(() => (flushed = true));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(flushed).toBe(false);
+
+    resolveSend();
+    await flush;
+    expect(flushed).toBe(true);
+  });
+});
+
+describe('FlagManager usage reporting', () => {
+  function createManager(options = {}) {
+    const cache = new InMemoryCache();
+    const apiClient = createMockApiClient(async () => ({
+      version: 'v1',
+      flags: [buildFlag('feature', true)],
+    }));
+    const manager = new FlagManager(
+      apiClient,
+      cache,
+      new RuleEngine(),
+      3600,
+      createMockLogger(),
+      options
+    );
+
+    return { apiClient, manager };
+  }
+
+  it('should batch usage instead of sending a request per evaluation', async () => {
+    const { apiClient, manager } = createManager();
+    const user = manager.withContext(new Context('user', undefined, 'user-1'));
+
+    await user.single('feature');
+    await user.single('feature');
+    await manager.single('missing', 'fallback');
+    expect(apiClient.sendUsage).not.toHaveBeenCalled();
+
+    await manager.flushUsage();
+
+    expect(apiClient.sendUsage).toHaveBeenCalledTimes(1);
+    expect(apiClient.sendUsage).toHaveBeenCalledWith([
+      { key: 'feature', context: { type: 'user', identifier: 'user-1' } },
+      { key: 'missing' },
+    ]);
+  });
+
+  it('should target on private attributes without reporting them', async () => {
+    const cache = new InMemoryCache();
+    const flag: FlagData = {
+      ...buildFlag('feature', false),
+      rules: [
+        {
+          clauses: [{ attribute: 'email', operator: 'ends_with', value: '@example.com' }],
+          value: { value: { boolean: true } },
+        },
+      ],
+    };
+    const apiClient = createMockApiClient(async () => ({ version: 'v1', flags: [flag] }));
+    const manager = new FlagManager(apiClient, cache, new RuleEngine(), 3600, createMockLogger(), {
+      usage: { redaction: { mode: 'hash' } },
+    });
+    const user = new Context('user', undefined, 'user-1', [
+      new Attribute('email', ['jane@example.com']).setPrivate(),
+    ]);
+
+    expect((await manager.withContext(user).single('feature')).isEnabled()).toBe(true);
+    await manager.flushUsage();
+
+    const reported = JSON.stringify(apiClient.sendUsage.mock.calls[0][0]);
+    expect(reported).not.toContain('jane@example.com');
+    expect(reported).toContain('"redacted":["email"]');
+  });
+
+  it('should not record usage when usage reporting is disabled', async () => {
+    const { apiClient, manager } = createManager({ usageReporting: false });
+
+    await manager.single('feature');
+    await manager.flushUsage();
+
+    expect(apiClient.sendUsage).not.toHaveBeenCalled();
+  });
+});
+
+describe('ApiClient usage requests', () => {
+  let fetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetch = vi.fn(async () => new Response(null, { status: 202 }));
+    vi.stubGlobal('fetch', fetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function createClient(): ApiClient {
+    return new ApiClient('srv_test_123', 'https://api.test', createMockLogger(), true);
+  }
+
+  function sentRequests(): { url: string; context: string | undefined }[] {
+    return fetch.mock.calls.map(([url, init]) => ({
+      url: url as string,
+      context: (init as RequestInit & { headers: Record<string, string> }).headers[
+        'X-ZENMANAGE-CONTEXT'
+      ],
+    }));
+  }
+
+  it('should send one request per flag and context', async () => {
+    const user = { type: 'user', identifier: 'user-1' };
+
+    await createClient().sendUsage([
+      { key: 'feature', context: user },
+      { key: 'feature', context: { ...user } },
+      { key: 'feature' },
+      { key: 'other', context: user },
+    ]);
+
+    expect(sentRequests()).toEqual([
+      { url: 'https://api.test/v1/flags/feature/usage', context: JSON.stringify(user) },
+      { url: 'https://api.test/v1/flags/feature/usage', context: undefined },
+      { url: 'https://api.test/v1/flags/other/usage', context: JSON.stringify(user) },
+    ]);
+  });
+
+  it('should throw when a usage request fails', async () => {
+    fetch.mockResolvedValueOnce(new Response(null, { status: 500 }));
+
+    await expect(createClient().sendUsage([{ key: 'a' }, { key: 'b' }])).rejects.toThrow(
+      '1 of 2 usage requests failed: Usage request failed with status 500'
+    );
+  });
+
+  it('should limit the number of usage requests in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    fetch.mockImplementation(async () => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      return new Response(null, { status: 202 });
+    });
+
+    await createClient().sendUsage(Array.from({ length: 20 }, (_, i) => ({ key: `flag-${i}` })));
+
+    expect(fetch).toHaveBeenCalledTimes(20);
+    expect(maxInFlight).toBe(4);
+  });
+});
@@ -28,4 +28,18 @@ export default defineConfig([
     platform: 'node',
     external: ['fs', 'path', 'util'],
   },
+  // CLI — `zenmanage codegen`
+  {
+    entry: { 'bin/zenmanage': 'src/bin/zenmanage.ts' },
+    format: ['esm'],
+    dts: false,
+    sourcemap: false,
+    clean: false,
+    splitting: false,
+    treeshake: true,
+    minify: false,
+    target: 'es2020',
+    platform: 'node',
+    external: ['fs', 'path', 'util'],
+  },
 ]);